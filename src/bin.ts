@@ -0,0 +1,17 @@
+#!/usr/bin/env node
+import { readFileSync } from "node:fs";
+import { runCli } from "./cli";
+
+process.exitCode = runCli(process.argv.slice(2), {
+  readStdin() {
+    if (process.stdin.isTTY)
+      throw new RangeError("No text given, see tiny-qrcode-svg --help");
+    return readFileSync(0, "utf8");
+  },
+  write(data) {
+    process.stdout.write(data);
+  },
+  error(message) {
+    process.stderr.write(message + "\n");
+  },
+});
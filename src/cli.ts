@@ -0,0 +1,417 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { extname } from "node:path";
+import { parseArgs } from "node:util";
+import makeSvg, {
+  DxfOptions,
+  makeAsciiStl,
+  makeDxf,
+  makeMicroSvg,
+  makePdf,
+  makePng,
+  makeRmqrSvg,
+  makeStl,
+  makeText,
+  PdfOptions,
+  PngOptions,
+  StlOptions,
+  SvgOptions,
+  TextOptions,
+} from "./index";
+
+// Everything the options can set, passed as is to the function of the output format
+type CliOptions = SvgOptions &
+  PngOptions &
+  PdfOptions &
+  TextOptions &
+  DxfOptions &
+  StlOptions & { height?: number; logoSize?: number; logoPadding?: number };
+
+interface CliOption {
+  // Key in the options of the make functions
+  key: keyof CliOptions;
+  type: "string" | "number" | "boolean";
+  help: string;
+}
+
+// The options of the make functions by their name on the command line
+const OPTIONS: Record<string, CliOption> = {
+  ecc: {
+    key: "ecc",
+    type: "string",
+    help: "Error correction level: low, medium (default), quartile or high",
+  },
+  "no-boost-ecl": {
+    key: "boostEcl",
+    type: "boolean",
+    help: "Don't raise the error correction level when it fits",
+  },
+  eci: {
+    key: "eci",
+    type: "string",
+    help: "ECI assignment number, or utf-8 for 26",
+  },
+  "min-version": {
+    key: "minVersion",
+    type: "number",
+    help: "Smallest version to use",
+  },
+  "max-version": {
+    key: "maxVersion",
+    type: "number",
+    help: "Largest version to use",
+  },
+  mask: { key: "mask", type: "number", help: "Mask pattern to use" },
+  fnc1: {
+    key: "fnc1",
+    type: "string",
+    help: "FNC1 mode: first for GS1 element strings, or second",
+  },
+  "app-indicator": {
+    key: "applicationIndicator",
+    type: "string",
+    help: "Industry format of FNC1 in the second position",
+  },
+  height: {
+    key: "height",
+    type: "number",
+    help: "Height of an rMQR code in modules",
+  },
+  size: { key: "size", type: "number", help: "Width of the SVG" },
+  margin: {
+    key: "margin",
+    type: "number",
+    help: "Width of the quiet zone in modules",
+  },
+  color: { key: "color", type: "string", help: "Color of the dark modules" },
+  background: {
+    key: "background",
+    type: "string",
+    help: "Color of the light modules and the quiet zone",
+  },
+  invert: { key: "invert", type: "boolean", help: "Swap dark and light" },
+  "module-style": {
+    key: "moduleStyle",
+    type: "string",
+    help: "square, outline, dots, rounded or liquid",
+  },
+  "finder-style": {
+    key: "finderStyle",
+    type: "string",
+    help: "square, rounded, circle or leaf",
+  },
+  "finder-color": {
+    key: "finderColor",
+    type: "string",
+    help: "Color of the finder patterns",
+  },
+  "pupil-color": {
+    key: "pupilColor",
+    type: "string",
+    help: "Color of the centers of the finder patterns",
+  },
+  "alignment-color": {
+    key: "alignmentColor",
+    type: "string",
+    help: "Color of the alignment patterns",
+  },
+  "timing-color": {
+    key: "timingColor",
+    type: "string",
+    help: "Color of the timing patterns",
+  },
+  id: { key: "id", type: "string", help: "Prefix of the ids in the SVG" },
+  logo: {
+    key: "logo",
+    type: "string",
+    help: "SVG or image file, or URL of an image, to put in the middle",
+  },
+  "logo-size": {
+    key: "logoSize",
+    type: "number",
+    help: "Size of the logo as a fraction of the code",
+  },
+  "logo-padding": {
+    key: "logoPadding",
+    type: "number",
+    help: "Modules cleared around the logo",
+  },
+  scale: { key: "scale", type: "number", help: "Pixels per module in PNGs" },
+  "module-size": {
+    key: "moduleSize",
+    type: "number",
+    help: "Size of a module in mm in PDF, DXF and STL",
+  },
+  "page-size": {
+    key: "pageSize",
+    type: "string",
+    help: "PDF page: a4, a5, a6, letter or WIDTHxHEIGHT in mm",
+  },
+  x: {
+    key: "x",
+    type: "number",
+    help: "Distance of the PDF code from the left in mm",
+  },
+  y: {
+    key: "y",
+    type: "number",
+    help: "Distance of the PDF code from the top in mm",
+  },
+  charset: {
+    key: "charset",
+    type: "string",
+    help: "Text characters: unicode (default) or ascii",
+  },
+  ansi: { key: "ansi", type: "boolean", help: "Color text with ANSI escapes" },
+  layer: { key: "layer", type: "string", help: "Layer of the DXF polylines" },
+  "base-thickness": {
+    key: "baseThickness",
+    type: "number",
+    help: "Thickness of the STL base plate in mm",
+  },
+  "module-height": {
+    key: "moduleHeight",
+    type: "number",
+    help: "Height of the STL modules above the plate in mm",
+  },
+};
+
+const FORMATS = ["svg", "png", "pdf", "txt", "dxf", "stl", "stl-ascii"];
+
+// The flags of the tool itself with their help, which may run over several lines
+const TOOL_FLAGS: Array<[string, string]> = [
+  ["-i, --input FILE", "Read the text from a file"],
+  ["-o, --output FILE", "Write to a file instead of stdout"],
+  [
+    "-f, --format FORMAT",
+    `${FORMATS.join(", ")}; follows the\noutput file extension, svg by default`,
+  ],
+  ["--symbol SYMBOL", "qr (default), micro or rmqr, which are SVG only"],
+  [
+    "--batch MODE",
+    "lines: one text per line, csv: one per row of a CSV\nwhose first row names the columns. Writes files\nnumbered after the output file, qr.svg by default",
+  ],
+  ["--column NAME", "CSV column of the text, the first one by default"],
+  ["-h, --help", "Show this help"],
+];
+
+const OPTION_FLAGS = Object.entries(OPTIONS).map(
+  ([name, { type, help }]): [string, string] => [
+    `--${name}${type == "boolean" ? "" : " VALUE"}`,
+    help,
+  ]
+);
+
+// The help lines up two spaces after the longest flag
+const HELP_COLUMN =
+  Math.max(...[...TOOL_FLAGS, ...OPTION_FLAGS].map(([flag]) => flag.length)) +
+  2;
+
+function formatFlags(flags: Array<[string, string]>): string {
+  return flags
+    .map(([flag, help]) =>
+      help
+        .split("\n")
+        .map((line, i) => `  ${(i ? "" : flag).padEnd(HELP_COLUMN)}${line}`)
+        .join("\n")
+    )
+    .join("\n");
+}
+
+const USAGE = `Usage: tiny-qrcode-svg [options] [text]
+
+Makes a QR Code of the text, read from the input file or stdin when not given.
+
+${formatFlags(TOOL_FLAGS)}
+
+${formatFlags(OPTION_FLAGS)}
+`;
+
+export interface CliIo {
+  // Returns everything piped into the program
+  readStdin(): string;
+  write(data: string | Uint8Array): void;
+  error(message: string): void;
+}
+
+// Reads a logo file as SVG markup or a data: URL, leaving anything else as a URL
+function readLogo(src: string): string {
+  if (!existsSync(src)) return src;
+  const ext = extname(src).toLowerCase();
+  if (ext == ".svg") return readFileSync(src, "utf8");
+  const type = ext == ".jpg" || ext == ".jpeg" ? "jpeg" : ext.slice(1);
+  return `data:image/${type};base64,${readFileSync(src).toString("base64")}`;
+}
+
+function parseNumber(name: string, value: string): number {
+  const n = Number(value);
+  if (value.trim() === "" || !Number.isFinite(n))
+    throw new RangeError(`--${name} must be a number`);
+  return n;
+}
+
+function parseOptions(values: Record<string, unknown>): CliOptions {
+  const opts: Record<string, unknown> = {};
+  for (const [name, { key, type }] of Object.entries(OPTIONS)) {
+    const value = values[name];
+    if (value === undefined) continue;
+    if (type == "number") opts[key] = parseNumber(name, value as string);
+    // Flags starting with no- turn an option off
+    else if (type == "boolean") opts[key] = !name.startsWith("no-");
+    else opts[key] = value;
+  }
+  const { eci, pageSize, logo, logoSize, logoPadding } = opts;
+  if (typeof eci == "string" && eci != "utf-8")
+    opts.eci = parseNumber("eci", eci);
+  if (typeof pageSize == "string" && pageSize.includes("x"))
+    opts.pageSize = pageSize.split("x").map((n) => parseNumber("page-size", n));
+  if (typeof logo == "string")
+    opts.logo = { src: readLogo(logo), size: logoSize, padding: logoPadding };
+  else if (logoSize !== undefined || logoPadding !== undefined)
+    throw new RangeError("--logo-size and --logo-padding need a --logo");
+  delete opts.logoSize;
+  delete opts.logoPadding;
+  return opts as CliOptions;
+}
+
+function render(
+  text: string,
+  format: string,
+  symbol: string,
+  opts: CliOptions
+): string | Uint8Array {
+  if (symbol != "qr" && format != "svg")
+    throw new RangeError("Micro QR and rMQR codes can only be written as SVG");
+  switch (format) {
+    case "svg":
+      if (symbol == "micro") return makeMicroSvg(text, opts);
+      if (symbol == "rmqr") return makeRmqrSvg(text, opts);
+      if (symbol != "qr") throw new RangeError(`Unknown symbol: ${symbol}`);
+      return makeSvg(text, opts);
+    case "png":
+      return makePng(text, opts);
+    case "pdf":
+      return makePdf(text, opts);
+    case "txt":
+      return makeText(text, opts) + "\n";
+    case "dxf":
+      return makeDxf(text, opts);
+    case "stl":
+      return makeStl(text, opts);
+    case "stl-ascii":
+      return makeAsciiStl(text, opts);
+    default:
+      throw new RangeError(`Unknown format: ${format}`);
+  }
+}
+
+// Splits CSV text into rows of fields, with double quotes around fields
+// that hold commas, quotes or line breaks
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c == '"' && text[i + 1] == '"') field += text[++i];
+      else if (c == '"') quoted = false;
+      else field += c;
+    } else if (c == '"') quoted = true;
+    else if (c == ",") {
+      row.push(field);
+      field = "";
+    } else if (c == "\n" || c == "\r") {
+      if (c == "\r" && text[i + 1] == "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else field += c;
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows;
+}
+
+function readBatch(text: string, mode: string, column?: string): string[] {
+  if (mode == "lines") return text.split(/\r?\n/).filter((line) => line);
+  if (mode != "csv") throw new RangeError(`Unknown batch mode: ${mode}`);
+  const [header, ...rows] = parseCsv(text);
+  const index = column === undefined ? 0 : header?.indexOf(column);
+  if (index === undefined || index < 0)
+    throw new RangeError(`No column named ${column}`);
+  return rows.filter((row) => row[index]).map((row) => row[index]);
+}
+
+// Numbers the output file, qr.svg becoming qr-01.svg when there are up to 99 files
+function numberedFile(output: string, n: number, count: number): string {
+  const ext = extname(output);
+  const stem = output.slice(0, output.length - ext.length);
+  return `${stem}-${String(n).padStart(String(count).length, "0")}${ext}`;
+}
+
+// Runs the command line tool with the arguments after the program name, returning the exit code
+export function runCli(args: string[], io: CliIo): number {
+  try {
+    const options: Record<
+      string,
+      { type: "string" | "boolean"; short?: string }
+    > = {
+      input: { type: "string", short: "i" },
+      output: { type: "string", short: "o" },
+      format: { type: "string", short: "f" },
+      symbol: { type: "string" },
+      batch: { type: "string" },
+      column: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    };
+    for (const [name, { type }] of Object.entries(OPTIONS))
+      options[name] = { type: type == "boolean" ? "boolean" : "string" };
+    const { values, positionals } = parseArgs({
+      args,
+      options,
+      allowPositionals: true,
+    });
+    if (values.help) {
+      io.write(USAGE);
+      return 0;
+    }
+    const output = values.output as string | undefined;
+    const outputExt = output && extname(output).slice(1).toLowerCase();
+    const format =
+      (values.format as string | undefined) ??
+      (outputExt && FORMATS.includes(outputExt) ? outputExt : "svg");
+    const symbol = (values.symbol as string | undefined) ?? "qr";
+    const opts = parseOptions(values);
+
+    // The text comes from the argument, the input file or stdin, without a final line break
+    let text: string;
+    if (positionals.length > 1)
+      throw new RangeError("Quote text with spaces as a single argument");
+    if (positionals.length) text = positionals[0];
+    else if (values.input) text = readFileSync(values.input as string, "utf8");
+    else text = io.readStdin();
+    if (!positionals.length) text = text.replace(/\r?\n$/, "");
+
+    if (values.batch === undefined) {
+      const result = render(text, format, symbol, opts);
+      if (output) writeFileSync(output, result);
+      else io.write(result);
+      return 0;
+    }
+    const texts = readBatch(
+      text,
+      values.batch as string,
+      values.column as string | undefined
+    );
+    const base = output ?? `qr.${format == "stl-ascii" ? "stl" : format}`;
+    texts.forEach((payload, i) => {
+      const file = numberedFile(base, i + 1, texts.length);
+      writeFileSync(file, render(payload, format, symbol, opts));
+    });
+    return 0;
+  } catch (e) {
+    io.error(`tiny-qrcode-svg: ${(e as Error).message}`);
+    return 1;
+  }
+}
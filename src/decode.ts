@@ -0,0 +1,376 @@
+import { EccLevel, getEccLevel } from "./encode";
+import { fromKanjiValue } from "./kanji";
+import { Ecc, Mode, QrCode, QrSegment } from "./qrcodegen";
+
+export interface StructuredAppendHeader {
+  // Zero-based position of the symbol in the message
+  index: number;
+  // Number of symbols in the message
+  total: number;
+  // The XOR of all bytes of the whole message
+  parity: number;
+}
+
+export interface DecodedQr {
+  // The payload, reading byte segments as UTF-8, or as ISO-8859-1 under ECI 1 or 3 or when they aren't valid UTF-8
+  text: string;
+  // The payload bytes, with the characters of numeric, alphanumeric and kanji segments UTF-8 encoded
+  bytes: Uint8Array;
+  version: number;
+  ecc: EccLevel;
+  mask: number;
+  // Assignment number of the first ECI designator, if there is one
+  eci?: number;
+  // Present when the symbol is part of a Structured Append message
+  structuredAppend?: StructuredAppendHeader;
+  // The position of the FNC1 mode indicator, "first" for GS1 element strings
+  fnc1?: "first" | "second";
+  // The industry format of data with FNC1 in the second position
+  applicationIndicator?: string;
+  // Number of codewords that error correction repaired
+  corrected: number;
+}
+
+/*---- Reed-Solomon error correction ----*/
+
+// Powers of 2 in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1, the field of the
+// error correction codewords, and their logarithms
+const EXP: number[] = [];
+const LOG: number[] = [];
+for (let i = 0, x = 1; i < 255; i++) {
+  EXP[i] = x;
+  LOG[x] = i;
+  x = x & 0x80 ? (x << 1) ^ 0x11d : x << 1;
+}
+
+function multiply(x: number, y: number): number {
+  return x && y ? EXP[(LOG[x] + LOG[y]) % 255] : 0;
+}
+
+function divide(x: number, y: number): number {
+  return x ? EXP[(LOG[x] + 255 - LOG[y]) % 255] : 0;
+}
+
+// 2 to the power of n, which may be negative
+function power(n: number): number {
+  return EXP[((n % 255) + 255) % 255];
+}
+
+// Evaluates a polynomial with its coefficients from the lowest degree up
+function evaluate(poly: number[], x: number): number {
+  let result = 0;
+  for (let i = poly.length - 1; i >= 0; i--)
+    result = multiply(result, x) ^ poly[i];
+  return result;
+}
+
+// The block as a polynomial, the first codeword being the highest coefficient,
+// evaluated at the roots of the generator polynomial, which are 2^0 to 2^(eccLen-1)
+function getSyndromes(block: number[], eccLen: number): number[] {
+  const syndromes: number[] = [];
+  for (let i = 0; i < eccLen; i++) {
+    let s = 0;
+    for (const c of block) s = multiply(s, EXP[i]) ^ c;
+    syndromes.push(s);
+  }
+  return syndromes;
+}
+
+const TOO_MANY_ERRORS = "The code has too many errors to correct";
+
+// Corrects the block of data and error correction codewords in place, returning the
+// number of codewords repaired. Finds the error locator polynomial with Berlekamp-Massey,
+// its roots with a Chien search and the error values with Forney's formula.
+function correctErrors(block: number[], eccLen: number): number {
+  const syndromes = getSyndromes(block, eccLen);
+  if (syndromes.every((s) => s == 0)) return 0;
+
+  let locator = [1];
+  let previous = [1];
+  let errors = 0;
+  let shift = 1;
+  let lastDiscrepancy = 1;
+  for (let n = 0; n < eccLen; n++) {
+    let discrepancy = syndromes[n];
+    for (let i = 1; i <= errors; i++)
+      discrepancy ^= multiply(locator[i] ?? 0, syndromes[n - i]);
+    if (discrepancy == 0) {
+      shift++;
+      continue;
+    }
+    const scale = divide(discrepancy, lastDiscrepancy);
+    const next = locator.slice();
+    previous.forEach((c, i) => {
+      next[i + shift] = (next[i + shift] ?? 0) ^ multiply(scale, c);
+    });
+    if (2 * errors <= n) {
+      previous = locator;
+      errors = n + 1 - errors;
+      lastDiscrepancy = discrepancy;
+      shift = 1;
+    } else shift++;
+    locator = next;
+  }
+  if (2 * errors > eccLen) throw new RangeError(TOO_MANY_ERRORS);
+
+  // An error in the coefficient of x^p makes 2^-p a root of the locator
+  const positions: number[] = [];
+  for (let p = 0; p < block.length; p++)
+    if (evaluate(locator, power(-p)) == 0) positions.push(p);
+  if (positions.length != errors) throw new RangeError(TOO_MANY_ERRORS);
+
+  // The error evaluator is the syndromes times the locator, modulo x^eccLen
+  const evaluator = syndromes.map((_, i) => {
+    let v = 0;
+    for (let j = 0; j <= i; j++)
+      v ^= multiply(syndromes[j], locator[i - j] ?? 0);
+    return v;
+  });
+  // The formal derivative keeps the odd powers, each lowered by one
+  const derivative = locator.slice(1).map((c, i) => (i % 2 == 0 ? c : 0));
+  for (const p of positions) {
+    const inverse = power(-p);
+    const denominator = evaluate(derivative, inverse);
+    if (denominator == 0) throw new RangeError(TOO_MANY_ERRORS);
+    const value = divide(evaluate(evaluator, inverse), denominator);
+    block[block.length - 1 - p] ^= multiply(power(p), value);
+  }
+  if (getSyndromes(block, eccLen).some((s) => s != 0))
+    throw new RangeError(TOO_MANY_ERRORS);
+  return errors;
+}
+
+/*---- Reading the symbol ----*/
+
+const LEVELS = [Ecc._LOW, Ecc._MEDIUM, Ecc._QUARTILE, Ecc._HIGH];
+
+// Reads both copies of the format information and returns the error correction level and
+// mask of the valid format closest to either, which allows up to 3 wrong bits
+function readFormat(modules: boolean[][]): [Ecc, number] {
+  const size = modules.length;
+  const bit = (x: number, y: number, i: number) => (modules[y][x] ? 1 << i : 0);
+  let first = bit(8, 7, 6) | bit(8, 8, 7) | bit(7, 8, 8);
+  for (let i = 0; i <= 5; i++) first |= bit(8, i, i);
+  for (let i = 9; i < 15; i++) first |= bit(14 - i, 8, i);
+  let second = 0;
+  for (let i = 0; i < 8; i++) second |= bit(size - 1 - i, 8, i);
+  for (let i = 8; i < 15; i++) second |= bit(8, size - 15 + i, i);
+
+  const distance = (a: number, b: number) => {
+    let n = 0;
+    for (let x = a ^ b; x; x &= x - 1) n++;
+    return n;
+  };
+  let best: [Ecc, number] | undefined;
+  let bestDistance = 4;
+  for (const ecl of LEVELS) {
+    for (let mask = 0; mask < 8; mask++) {
+      // As drawn by QrCode
+      const data = (ecl._formatBits << 3) | mask;
+      let rem = data;
+      for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+      const bits = ((data << 10) | rem) ^ 0x5412;
+      const d = Math.min(distance(bits, first), distance(bits, second));
+      if (d < bestDistance) {
+        best = [ecl, mask];
+        bestDistance = d;
+      }
+    }
+  }
+  if (!best) throw new RangeError("The format information is unreadable");
+  return best;
+}
+
+// Text of byte segments, in ISO-8859-1 for ECI 1 and 3 and otherwise in UTF-8 where valid
+function decodeBytes(bytes: number[], eci?: number): string {
+  if (eci !== 1 && eci !== 3) {
+    try {
+      return new TextDecoder("utf-8", { fatal: true }).decode(
+        Uint8Array.from(bytes)
+      );
+    } catch {
+      // Not UTF-8
+    }
+  }
+  return bytes.map((b) => String.fromCharCode(b)).join("");
+}
+
+// Parses the segments in the data codewords, up to the terminator or the end of the data
+function parseSegments(
+  data: number[],
+  version: number
+): Pick<
+  DecodedQr,
+  | "text"
+  | "bytes"
+  | "eci"
+  | "structuredAppend"
+  | "fnc1"
+  | "applicationIndicator"
+> {
+  let pos = 0;
+  const read = (n: number) => {
+    if (pos + n > data.length * 8)
+      throw new RangeError("The data ends inside a segment");
+    let v = 0;
+    for (let i = 0; i < n; i++, pos++)
+      v = (v << 1) | ((data[pos >>> 3] >>> (7 - (pos & 7))) & 1);
+    return v;
+  };
+  const encoder = new TextEncoder();
+  let text = "";
+  const bytes: number[] = [];
+  const addText = (s: string) => {
+    text += s;
+    bytes.push(...encoder.encode(s));
+  };
+  let eci: number | undefined;
+  let currentEci: number | undefined;
+  let structuredAppend: StructuredAppendHeader | undefined;
+  let fnc1: DecodedQr["fnc1"];
+  let applicationIndicator: string | undefined;
+
+  while (pos + 4 <= data.length * 8) {
+    const mode = read(4);
+    if (mode == 0) break;
+    switch (mode) {
+      case Mode._NUMERIC._modeBits: {
+        // Groups of 3 digits in 10 bits, and 2 or 1 left over in 7 or 4 bits
+        const digits = (n: number, bits: number) => {
+          const v = read(bits);
+          if (v >= 10 ** n) throw new RangeError("Invalid numeric segment");
+          return String(v).padStart(n, "0");
+        };
+        let count = read(Mode._NUMERIC._numCharCountBits(version));
+        let s = "";
+        for (; count >= 3; count -= 3) s += digits(3, 10);
+        if (count == 2) s += digits(2, 7);
+        if (count == 1) s += digits(1, 4);
+        addText(s);
+        break;
+      }
+      case Mode._ALPHANUMERIC._modeBits: {
+        let count = read(Mode._ALPHANUMERIC._numCharCountBits(version));
+        const charset = QrSegment._ALPHANUMERIC_CHARSET;
+        const indices: number[] = [];
+        for (; count >= 2; count -= 2) {
+          const v = read(11);
+          indices.push(Math.floor(v / 45), v % 45);
+        }
+        if (count == 1) indices.push(read(6));
+        if (indices.some((i) => i >= charset.length))
+          throw new RangeError("Invalid alphanumeric segment");
+        const s = indices.map((i) => charset[i]).join("");
+        // In FNC1 mode a percent sign stands for the group separator, and two for a percent sign
+        addText(fnc1 ? s.replace(/%%?/g, (m) => (m == "%" ? "\x1d" : "%")) : s);
+        break;
+      }
+      case Mode._BYTE._modeBits: {
+        const count = read(Mode._BYTE._numCharCountBits(version));
+        const segment: number[] = [];
+        for (let i = 0; i < count; i++) segment.push(read(8));
+        text += decodeBytes(segment, currentEci);
+        bytes.push(...segment);
+        break;
+      }
+      case Mode._KANJI._modeBits: {
+        const count = read(Mode._KANJI._numCharCountBits(version));
+        let s = "";
+        for (let i = 0; i < count; i++) {
+          const cp = fromKanjiValue(read(13));
+          if (cp == -1) throw new RangeError("Invalid kanji segment");
+          s += String.fromCodePoint(cp);
+        }
+        addText(s);
+        break;
+      }
+      case Mode._ECI._modeBits: {
+        // The leading bits give the length of the assignment number
+        const b = read(8);
+        if (!(b & 0x80)) currentEci = b;
+        else if (!(b & 0x40)) currentEci = ((b & 0x3f) << 8) | read(8);
+        else if (!(b & 0x20)) currentEci = ((b & 0x1f) << 16) | read(16);
+        else throw new RangeError("Invalid ECI designator");
+        eci ??= currentEci;
+        break;
+      }
+      case Mode._STRUCTURED_APPEND._modeBits:
+        structuredAppend = {
+          index: read(4),
+          total: read(4) + 1,
+          parity: read(8),
+        };
+        break;
+      case Mode._FNC1_FIRST._modeBits:
+        fnc1 = "first";
+        break;
+      case Mode._FNC1_SECOND._modeBits: {
+        // Two digits, or a letter as its ASCII value plus 100
+        const v = read(8);
+        fnc1 = "second";
+        applicationIndicator =
+          v < 100 ? String(v).padStart(2, "0") : String.fromCharCode(v - 100);
+        break;
+      }
+      default:
+        throw new RangeError(`Unknown segment mode: ${mode}`);
+    }
+  }
+  return {
+    text,
+    bytes: Uint8Array.from(bytes),
+    eci,
+    structuredAppend,
+    fnc1,
+    applicationIndicator,
+  };
+}
+
+// Reads a QR Code from its modules, dark being true, without the quiet zone. The version
+// follows from the size. Wrong modules in the data area are corrected as far as the error
+// correction level allows, and up to 3 wrong bits in the format information.
+export function decodeModules(modules: boolean[][]): DecodedQr {
+  const size = modules.length;
+  const version = (size - 17) / 4;
+  if (
+    !Number.isInteger(version) ||
+    version < 1 ||
+    version > 40 ||
+    modules.some((row) => row.length != size)
+  )
+    throw new RangeError("The modules are not the size of a QR Code");
+  const [ecl, mask] = readFormat(modules);
+
+  // With all codewords zero, a code of the same format shows just the mask in its data area
+  const template = new QrCode(
+    version,
+    ecl,
+    new Array(QrCode._getNumDataCodewords(version, ecl)).fill(0),
+    mask
+  );
+  const [blockOf, blockEccLen] = QrCode._getBlocks(version, ecl);
+  const codewords: number[] = blockOf.map(() => 0);
+  template._getBitIndices().forEach((row, y) =>
+    row.forEach((i, x) => {
+      if (i != -1 && modules[y][x] != template._modules[y][x])
+        codewords[i >>> 3] |= 0x80 >>> (i & 7);
+    })
+  );
+
+  // Undo the interleaving, then correct each block and join their data codewords
+  const blocks: number[][] = [];
+  codewords.forEach((c, i) => (blocks[blockOf[i]] ??= []).push(c));
+  let corrected = 0;
+  const data: number[] = [];
+  for (const block of blocks) {
+    corrected += correctErrors(block, blockEccLen);
+    data.push(...block.slice(0, block.length - blockEccLen));
+  }
+  return {
+    ...parseSegments(data, version),
+    version,
+    ecc: getEccLevel(ecl),
+    mask,
+    corrected,
+  };
+}
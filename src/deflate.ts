@@ -0,0 +1,153 @@
+// A small deflate compressor (RFC 1951) with the fixed Huffman codes, which is
+// enough for images of QR Codes: their rows repeat, so nearly everything is a match.
+
+// Smallest length or distance of each code, and the number of extra bits after it
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67,
+  83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5,
+  5, 5, 0,
+];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11,
+  11, 12, 12, 13, 13,
+];
+
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const WINDOW_SIZE = 32768;
+// How many earlier positions with the same hash are tried for each match
+const MAX_CHAIN = 64;
+
+function findCode(bases: number[], value: number) {
+  let i = bases.length - 1;
+  while (bases[i] > value) i--;
+  return i;
+}
+
+// Collects bits least significant first, the order deflate packs them in
+function makeBitWriter() {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let count = 0;
+  const write = (value: number, length: number) => {
+    buffer |= value << count;
+    count += length;
+    while (count >= 8) {
+      bytes.push(buffer & 0xff);
+      buffer >>>= 8;
+      count -= 8;
+    }
+  };
+  return {
+    write,
+    // Huffman codes are packed starting with their most significant bit
+    writeCode(code: number, length: number) {
+      let reversed = 0;
+      for (let i = 0; i < length; i++)
+        reversed |= ((code >>> i) & 1) << (length - 1 - i);
+      write(reversed, length);
+    },
+    finish(): number[] {
+      if (count > 0) bytes.push(buffer & 0xff);
+      return bytes;
+    },
+  };
+}
+
+type BitWriter = ReturnType<typeof makeBitWriter>;
+
+// Writes a literal byte, or the end of block marker 256, in the fixed Huffman code
+function writeLiteral(out: BitWriter, symbol: number) {
+  if (symbol < 144) out.writeCode(0x30 + symbol, 8);
+  else if (symbol < 256) out.writeCode(0x190 + symbol - 144, 9);
+  else if (symbol < 280) out.writeCode(symbol - 256, 7);
+  else out.writeCode(0xc0 + symbol - 280, 8);
+}
+
+function writeMatch(out: BitWriter, length: number, distance: number) {
+  const l = findCode(LENGTH_BASE, length);
+  writeLiteral(out, 257 + l);
+  out.write(length - LENGTH_BASE[l], LENGTH_EXTRA[l]);
+  const d = findCode(DISTANCE_BASE, distance);
+  out.writeCode(d, 5);
+  out.write(distance - DISTANCE_BASE[d], DISTANCE_EXTRA[d]);
+}
+
+// Compresses the data into a single fixed Huffman block, finding matches
+// through chains of earlier positions that start with the same three bytes
+export function deflate(data: Uint8Array): number[] {
+  const out = makeBitWriter();
+  out.write(1, 1); // Final block
+  out.write(1, 2); // Fixed Huffman codes
+  const head = new Map<number, number>();
+  const prev = new Int32Array(data.length);
+  const hashAt = (i: number) =>
+    (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+  const insert = (i: number) => {
+    if (i + MIN_MATCH > data.length) return;
+    const hash = hashAt(i);
+    prev[i] = head.get(hash) ?? -1;
+    head.set(hash, i);
+  };
+  let i = 0;
+  while (i < data.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+    if (i + MIN_MATCH <= data.length) {
+      const max = Math.min(MAX_MATCH, data.length - i);
+      let candidate = head.get(hashAt(i)) ?? -1;
+      for (let chain = 0; candidate >= 0 && chain < MAX_CHAIN; chain++) {
+        if (i - candidate > WINDOW_SIZE) break;
+        let length = 0;
+        while (length < max && data[candidate + length] === data[i + length])
+          length++;
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = i - candidate;
+          if (length === max) break;
+        }
+        candidate = prev[candidate];
+      }
+    }
+    if (bestLength >= MIN_MATCH) {
+      writeMatch(out, bestLength, bestDistance);
+      for (let end = i + bestLength; i < end; i++) insert(i);
+    } else {
+      writeLiteral(out, data[i]);
+      insert(i++);
+    }
+  }
+  writeLiteral(out, 256);
+  return out.finish();
+}
+
+function adler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (const byte of data) {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+// Wraps deflated data in the zlib format (RFC 1950) that PNG uses
+export function zlib(data: Uint8Array): Uint8Array {
+  const checksum = adler32(data);
+  return Uint8Array.from([
+    0x78, // Deflate with a 32K window
+    0x01, // No preset dictionary, fastest compression, header check bits
+    ...deflate(data),
+    checksum >>> 24,
+    (checksum >>> 16) & 0xff,
+    (checksum >>> 8) & 0xff,
+    checksum & 0xff,
+  ]);
+}
@@ -0,0 +1,56 @@
+import { Point, round, traceOutlines } from "./outline";
+
+export interface DxfOptions {
+  // Width and height of a module in drawing units, usually mm, defaults to 1
+  moduleSize?: number;
+  // Layer of the polylines, defaults to "0" which every drawing has
+  layer?: string;
+}
+
+// Writes the outlines of the dark regions as closed polylines in an AutoCAD R12
+// ASCII DXF, with the bottom left corner of the code at the origin and y up.
+// The quiet zone is left to the layout.
+export function renderDxf(modules: boolean[][], opts: DxfOptions = {}): string {
+  const { moduleSize = 1, layer = "0" } = opts;
+  if (!(moduleSize > 0)) throw new RangeError("Module size must be positive");
+  const height = modules.length;
+  // Group codes and values alternate line by line
+  const lines: Array<string | number> = [];
+  const group = (code: number, value: string | number) =>
+    lines.push(code, value);
+  const polyline = (polygon: Point[]) => {
+    group(0, "POLYLINE");
+    group(8, layer);
+    group(66, 1); // Vertices follow
+    group(70, 1); // Closed
+    for (const [x, y] of polygon) {
+      group(0, "VERTEX");
+      group(8, layer);
+      group(10, round(x * moduleSize, 4));
+      group(20, round((height - y) * moduleSize, 4));
+    }
+    group(0, "SEQEND");
+    group(8, layer);
+  };
+
+  group(0, "SECTION");
+  group(2, "HEADER");
+  group(9, "$ACADVER");
+  group(1, "AC1009");
+  group(9, "$EXTMIN");
+  group(10, 0);
+  group(20, 0);
+  group(9, "$EXTMAX");
+  group(10, round(modules[0].length * moduleSize, 4));
+  group(20, round(height * moduleSize, 4));
+  group(0, "ENDSEC");
+  group(0, "SECTION");
+  group(2, "ENTITIES");
+  for (const { outer, holes } of traceOutlines(modules)) {
+    polyline(outer);
+    holes.forEach(polyline);
+  }
+  group(0, "ENDSEC");
+  group(0, "EOF");
+  return lines.join("\n") + "\n";
+}
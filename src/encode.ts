@@ -0,0 +1,193 @@
+import { MicroQrCode } from "./microqr";
+import { Ecc, Mode, QrCode, QrSegment } from "./qrcodegen";
+import { QrSegmentAdvanced } from "./qrsegmentadvanced";
+import { RmqrCode } from "./rmqr";
+
+const ECC_LEVELS = {
+  low: Ecc._LOW,
+  medium: Ecc._MEDIUM,
+  quartile: Ecc._QUARTILE,
+  high: Ecc._HIGH,
+};
+
+export type EccLevel = keyof typeof ECC_LEVELS;
+
+// Text is split into the most compact segments, binary data is kept as a single byte segment
+export type QrData = string | Uint8Array | ArrayBuffer;
+
+export interface EncodeOptions {
+  // The minimum error correction level, defaults to "medium"
+  ecc?: EccLevel;
+  // Raise the error correction level if it fits in the same version, defaults to true
+  boostEcl?: boolean;
+  // ECI assignment number to declare the character set, "utf-8" for 26. Text is encoded
+  // as UTF-8, so data in other character sets must be given as bytes.
+  eci?: number | "utf-8";
+  // The smallest and largest version to choose from, defaults to 1 and 40
+  minVersion?: number;
+  maxVersion?: number;
+  // The mask pattern from 0 to 7, defaults to the one with the lowest penalty score
+  mask?: number;
+  // FNC1 mode: "first" marks GS1 element strings, in which the group separator U+001D ends
+  // variable length fields, and "second" the format of the applicationIndicator
+  fnc1?: "first" | "second";
+  // Two digits or a letter naming the industry format, for FNC1 in the second position
+  applicationIndicator?: string;
+}
+
+// The ECI assignment number that declares the payload as UTF-8
+const ECI_UTF8 = 26;
+
+export function getEcc(ecc: EccLevel = "medium"): Ecc {
+  const ecl = ECC_LEVELS[ecc];
+  if (!(ecl instanceof Ecc))
+    throw new RangeError(`Unknown error correction level: ${ecc}`);
+  return ecl;
+}
+
+export function getEccLevel(ecl: Ecc): EccLevel {
+  const levels = Object.keys(ECC_LEVELS) as EccLevel[];
+  return levels.find((level) => ECC_LEVELS[level] === ecl) as EccLevel;
+}
+
+export function toBytes(data: Uint8Array | ArrayBuffer): Uint8Array {
+  return data instanceof ArrayBuffer ? new Uint8Array(data) : data;
+}
+
+// Text is always encoded as UTF-8, which an ECI designator of another character set
+// would make readers misread
+export function checkEci(data: QrData, opts: EncodeOptions): void {
+  const { eci } = opts;
+  if (
+    typeof data === "string" &&
+    eci !== undefined &&
+    eci !== "utf-8" &&
+    eci !== ECI_UTF8
+  )
+    throw new RangeError(
+      `Text is encoded as UTF-8, give the data for ECI ${eci} as bytes`
+    );
+}
+
+// Segments to put in front of the payload: the ECI designator and the FNC1 mode indicator
+export function makePrefix(opts: EncodeOptions): QrSegment[] {
+  const { eci, fnc1, applicationIndicator } = opts;
+  const prefix: QrSegment[] = [];
+  if (eci !== undefined)
+    prefix.push(QrSegment._makeEci(eci === "utf-8" ? ECI_UTF8 : eci));
+  if (fnc1 === "first") prefix.push(QrSegment._makeFnc1First());
+  else if (fnc1 === "second") {
+    if (applicationIndicator === undefined)
+      throw new RangeError(
+        "FNC1 in the second position needs an application indicator"
+      );
+    prefix.push(QrSegment._makeFnc1Second(applicationIndicator));
+  } else if (fnc1 !== undefined)
+    throw new RangeError(`Unknown FNC1 position: ${fnc1}`);
+  return prefix;
+}
+
+export function makeSegments(
+  data: QrData,
+  ecl: Ecc,
+  prefix: QrSegment[] = [],
+  minVersion = 1,
+  maxVersion = 40
+): QrSegment[] {
+  // FNC1 mode changes what the percent sign means in alphanumeric segments
+  const fnc1 = prefix.some(
+    (seg) => seg._mode === Mode._FNC1_FIRST || seg._mode === Mode._FNC1_SECOND
+  );
+  // Kanji segments are Shift JIS, which readers would take for the character set of the ECI
+  const eci = prefix.some((seg) => seg._mode === Mode._ECI);
+  if (typeof data === "string")
+    return QrSegmentAdvanced._makeSegmentsOptimally(
+      data,
+      ecl,
+      minVersion,
+      maxVersion,
+      prefix,
+      fnc1,
+      eci
+    );
+  return prefix.concat(QrSegment._makeBytes(Array.from(toBytes(data))));
+}
+
+export function encodeSegments(segs: QrSegment[], opts: EncodeOptions): QrCode {
+  const { boostEcl = true, minVersion = 1, maxVersion = 40, mask = -1 } = opts;
+  const ecl = getEcc(opts.ecc);
+  return QrCode._encodeSegments(
+    segs,
+    ecl,
+    minVersion,
+    maxVersion,
+    mask,
+    boostEcl
+  );
+}
+
+export function encode(data: QrData, opts: EncodeOptions = {}): QrCode {
+  const { minVersion, maxVersion } = opts;
+  const ecl = getEcc(opts.ecc);
+  checkEci(data, opts);
+  const segs = makeSegments(
+    data,
+    ecl,
+    makePrefix(opts),
+    minVersion,
+    maxVersion
+  );
+  return encodeSegments(segs, opts);
+}
+
+// Micro QR Code has no ECI designators or FNC1 mode. Its versions run from 1 to 4 for
+// M1 to M4, and its masks from 0 to 3.
+export type MicroEncodeOptions = Omit<
+  EncodeOptions,
+  "eci" | "fnc1" | "applicationIndicator"
+>;
+
+export function encodeMicro(
+  data: QrData,
+  opts: MicroEncodeOptions = {}
+): MicroQrCode {
+  const { boostEcl = true, minVersion = 1, maxVersion = 4, mask = -1 } = opts;
+  const ecl = getEcc(opts.ecc);
+  if (typeof data === "string")
+    return MicroQrCode._encodeText(
+      data,
+      ecl,
+      minVersion,
+      maxVersion,
+      mask,
+      boostEcl
+    );
+  const segs = [QrSegment._makeBytes(Array.from(toBytes(data)))];
+  return MicroQrCode._encodeSegments(
+    segs,
+    ecl,
+    minVersion,
+    maxVersion,
+    mask,
+    boostEcl
+  );
+}
+
+// rMQR has no ECI designators or FNC1 mode either, only the "medium" and "high" levels and a single mask
+export interface RmqrEncodeOptions
+  extends Omit<MicroEncodeOptions, "minVersion" | "maxVersion" | "mask"> {
+  // Height in modules (7, 9, 11, 13, 15 or 17), defaults to the smallest area that fits
+  height?: number;
+}
+
+export function encodeRmqr(
+  data: QrData,
+  opts: RmqrEncodeOptions = {}
+): RmqrCode {
+  const { boostEcl = true, height = 0 } = opts;
+  const ecl = getEcc(opts.ecc);
+  if (typeof data === "string")
+    return RmqrCode._encodeText(data, ecl, height, boostEcl);
+  const segs = [QrSegment._makeBytes(Array.from(toBytes(data)))];
+  return RmqrCode._encodeSegments(segs, ecl, height, boostEcl);
+}
@@ -0,0 +1,151 @@
+// GS1 element strings, the application identifiers (AIs) and values that GS1 QR Codes
+// hold in FNC1 mode, as in the GS1 General Specifications
+
+// The group separator, which ends the value of an AI of variable length
+const GS = "\x1d";
+
+// Formats of the values, N for digits and X for the GS1 character set, with .. before
+// the most characters of variable length parts. The check digit and date flags apply
+// to the first part. An n stands for a digit giving the decimal places.
+const AI_FORMATS: Record<string, string> = {
+  "00": "N18 check", // SSCC
+  "01": "N14 check", // GTIN
+  "02": "N14 check", // GTIN of contained trade items
+  "10": "X..20", // Batch or lot number
+  "11": "N6 date", // Production date
+  "12": "N6 date", // Due date
+  "13": "N6 date", // Packaging date
+  "15": "N6 date", // Best before date
+  "16": "N6 date", // Sell by date
+  "17": "N6 date", // Expiration date
+  "20": "N2", // Internal product variant
+  "21": "X..20", // Serial number
+  "22": "X..20", // Consumer product variant
+  "235": "X..28", // Third party controlled serial extension
+  "240": "X..30", // Additional product identification
+  "241": "X..30", // Customer part number
+  "250": "X..30", // Secondary serial number
+  "251": "X..30", // Reference to source entity
+  "253": "N13 check+X..17", // GDTI
+  "254": "X..20", // GLN extension component
+  "30": "N..8", // Variable count of items
+  "37": "N..8", // Count of trade items
+  "390n": "N..15", // Amount payable
+  "391n": "N3+N..15", // Amount payable with ISO currency code
+  "392n": "N..15", // Amount payable for a variable measure trade item
+  "393n": "N3+N..15", // The same with ISO currency code
+  "400": "X..30", // Customer's purchase order number
+  "401": "X..30", // GINC
+  "402": "N17 check", // GSIN
+  "403": "X..30", // Routing code
+  "410": "N13 check", // Ship to GLN
+  "411": "N13 check", // Bill to GLN
+  "412": "N13 check", // Purchased from GLN
+  "413": "N13 check", // Ship for GLN
+  "414": "N13 check", // GLN of a physical location
+  "415": "N13 check", // GLN of the invoicing party
+  "416": "N13 check", // GLN of the production or service location
+  "417": "N13 check", // Party GLN
+  "420": "X..20", // Ship to postal code
+  "421": "N3+X..9", // Ship to postal code with ISO country code
+  "422": "N3", // Country of origin
+  "7003": "N10", // Expiration date and time
+  "8004": "X..30", // GIAI
+  "8005": "N6", // Price per unit of measure
+  "8008": "N8+N..4", // Date and time of production
+  "8020": "X..25", // Payment slip reference number
+  "90": "X..30", // Mutually agreed information
+};
+// Trade measures such as net weight and length, from 310n to 369n
+for (let ai = 310; ai <= 369; ai++) AI_FORMATS[`${ai}n`] = "N6";
+// Company internal information
+for (let ai = 91; ai <= 99; ai++) AI_FORMATS[ai] = "X..90";
+
+// AIs starting with these digits have values of a predefined length, which need no separator.
+// Those starting with 23 once did, but 235 is of variable length.
+const PREDEFINED_LENGTH = /^(0[0-4]|1[1-9]|20|3[1-6]|41)/;
+
+// The 82 characters of GS1 element strings
+const CHARSET = /^[!"%&'()*+,\-./\d:;<=>?A-Z_a-z]*$/;
+
+function getFormat(ai: string): string {
+  const format =
+    AI_FORMATS[ai] ?? (ai.length == 4 && AI_FORMATS[`${ai.slice(0, 3)}n`]);
+  if (!/^\d{2,4}$/.test(ai) || !format)
+    throw new RangeError(`Unknown application identifier: ${ai}`);
+  return format;
+}
+
+// The GS1 check digit: weights of 3 and 1 alternate from the right, and the
+// digit brings the sum up to a multiple of 10
+function checkDigit(digits: string): number {
+  let sum = 0;
+  for (let i = digits.length - 1, weight = 3; i >= 0; i--, weight = 4 - weight)
+    sum += +digits[i] * weight;
+  return (10 - (sum % 10)) % 10;
+}
+
+// Dates are YYMMDD, where a day of 00 stands for the end of the month
+function isDate(value: string): boolean {
+  const month = +value.slice(2, 4);
+  const day = +value.slice(4, 6);
+  const days = new Date(
+    Date.UTC(2000 + +value.slice(0, 2), month, 0)
+  ).getUTCDate();
+  return month >= 1 && month <= 12 && day <= days;
+}
+
+function checkValue(ai: string, value: string): void {
+  const [spec, ...flags] = getFormat(ai).split(" ");
+  const fail = (reason: string) => {
+    throw new RangeError(`Invalid value for AI (${ai}): ${reason}`);
+  };
+  let rest = value;
+  spec.split("+").forEach((part, i) => {
+    const [, chars, variable, length] = /^([NX])(\.\.)?(\d+)$/.exec(part)!;
+    const n = variable ? Math.min(rest.length, +length) : +length;
+    const field = rest.slice(0, n);
+    rest = rest.slice(n);
+    if (!field || field.length < n) fail(`${value} is too short`);
+    if (chars == "N" && !/^\d*$/.test(field)) fail(`${field} is not numeric`);
+    if (!CHARSET.test(field))
+      fail(`${field} has characters outside the GS1 character set`);
+    if (i > 0) return;
+    if (
+      flags.includes("check") &&
+      checkDigit(field.slice(0, -1)) != +field.slice(-1)
+    )
+      fail(`wrong check digit in ${field}`);
+    if (flags.includes("date") && !isDate(field)) fail(`${field} is no date`);
+  });
+  if (rest) fail(`${value} is too long`);
+}
+
+// Parses the human readable form, such as "(01)09501101530003(17)261231(10)AB-123".
+// Values with parentheses need the pairs of AIs and values instead.
+function parseElements(text: string): Array<[string, string]> {
+  const elements: Array<[string, string]> = [];
+  const pattern = /\((\d{2,4})\)([^()]*)/y;
+  let end = 0;
+  for (let match; (match = pattern.exec(text)); end = pattern.lastIndex)
+    elements.push([match[1], match[2]]);
+  if (end != text.length || !elements.length)
+    throw new RangeError(`Invalid GS1 element string: ${text}`);
+  return elements;
+}
+
+// Makes the GS1 element string of the AIs and their values, for a QR Code with fnc1 "first".
+// The values are checked against the format of their AI, including check digits and dates,
+// and a group separator follows every value of variable length but the last.
+export function makeGs1(elements: string | Array<[string, string]>): string {
+  const pairs =
+    typeof elements === "string" ? parseElements(elements) : elements;
+  if (!pairs.length) throw new RangeError("No GS1 elements");
+  return pairs
+    .map(([ai, value], i) => {
+      checkValue(ai, value);
+      const last = i == pairs.length - 1;
+      return last || PREDEFINED_LENGTH.test(ai) ? ai + value : ai + value + GS;
+    })
+    .join("");
+}
@@ -1,10 +1,53 @@
-import makeSvg from "../src/index.ts";
+import makeSvg, {
+  decodeQr,
+  EccLevel,
+  FinderStyle,
+  makeAsciiStl,
+  Gradient,
+  makeDxf,
+  makeEpc,
+  makeEpcSvg,
+  makeEvent,
+  makeGeo,
+  makeGs1,
+  makeMailto,
+  makeMecard,
+  makeMicroSvg,
+  makePdf,
+  makePng,
+  makeText,
+  makeRmqrSvg,
+  makeMatrix,
+  makeMicroMatrix,
+  makeRmqrMatrix,
+  makeStl,
+  makeSms,
+  makeStructuredAppendSvg,
+  makeSwissQrBill,
+  makeSwissQrBillSvg,
+  makeVcard,
+  makeWifi,
+  MatrixModuleType,
+  ModuleStyle,
+  ModuleStyleName,
+  traceOutlines,
+} from "../src/index.ts";
+import { runCli } from "../src/cli.ts";
+import { zlib } from "../src/deflate.ts";
+import { encode, makePrefix, makeSegments } from "../src/encode.ts";
+import { MicroQrCode } from "../src/microqr.ts";
+import { Ecc, Mode } from "../src/qrcodegen.ts";
+import { RmqrCode } from "../src/rmqr.ts";
 import jsQR from "jsqr";
 import sharp from "sharp";
+import { mkdtempSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { inflateSync } from "node:zlib";
 
 import { expect, test } from "vitest";
 
-async function scanCode(svg: string) {
+async function decode(svg: string) {
   const { data, info } = await sharp(Buffer.from(svg))
     .flatten({
       background: { r: 255, g: 255, b: 255 },
@@ -19,7 +62,11 @@ async function scanCode(svg: string) {
     info.height
   );
 
-  return code?.data;
+  return code;
+}
+
+async function scanCode(svg: string) {
+  return (await decode(svg))?.data;
 }
 
 test("should make a scannable svg", async () => {
@@ -36,3 +83,1370 @@ test("should handle empty strings", async () => {
   const svg = makeSvg("");
   expect(await scanCode(svg)).toBe("");
 });
+
+function viewBoxWidth(svg: string) {
+  return Number(svg.match(/viewBox="0 0 (\d+) /)![1]);
+}
+
+test("should encode at every error correction level", async () => {
+  for (const ecc of ["low", "medium", "quartile", "high"] as const) {
+    const svg = makeSvg("hello world", { ecc });
+    expect(await scanCode(svg)).toBe("hello world");
+  }
+});
+
+test("should pick a smaller version for a lower error correction level", () => {
+  const text = "https://example.com/some/fairly/long/path?with=query";
+  const low = makeSvg(text, { ecc: "low", boostEcl: false });
+  const high = makeSvg(text, { ecc: "high", boostEcl: false });
+  expect(viewBoxWidth(low)).toBeLessThan(viewBoxWidth(high));
+});
+
+test("should throw on an unknown error correction level", () => {
+  expect(() =>
+    makeSvg("hello", { ecc: "extreme" as unknown as EccLevel })
+  ).toThrow(RangeError);
+});
+
+test("should add a quiet zone of 4 modules by default", () => {
+  expect(viewBoxWidth(makeSvg("hello world"))).toBe((21 + 8) * 2);
+  expect(viewBoxWidth(makeSvg("hello world", { margin: 0 }))).toBe(21 * 2);
+});
+
+test("should make a scannable svg with a custom margin", async () => {
+  const svg = makeSvg("hello world", { margin: 10 });
+  expect(viewBoxWidth(svg)).toBe((21 + 20) * 2);
+  expect(await scanCode(svg)).toBe("hello world");
+});
+
+test("should leave the background transparent by default", () => {
+  expect(makeSvg("hello world")).not.toContain("<rect");
+  expect(makeSvg("hello world", { background: "transparent" })).not.toContain(
+    "<rect"
+  );
+});
+
+test("should fill the background including the quiet zone", async () => {
+  const svg = makeSvg("hello world", { background: "#ffeecc" });
+  expect(svg).toContain(`<rect width="58" height="58" fill="#ffeecc" />`);
+  expect(await scanCode(svg)).toBe("hello world");
+});
+
+test("should make a scannable inverted svg", async () => {
+  const svg = makeSvg("hello world", {
+    color: "#111",
+    background: "#eee",
+    invert: true,
+  });
+  expect(svg).toContain(`fill="#111"`);
+  expect(svg).toContain(`stroke="#eee"`);
+  expect(await scanCode(svg)).toBe("hello world");
+});
+
+test("should refuse to invert onto a transparent background", () => {
+  expect(() =>
+    makeSvg("hello world", { invert: true, background: "transparent" })
+  ).toThrow(RangeError);
+});
+
+test("should encode digits in numeric mode", async () => {
+  // 41 digits fit version 1 in numeric mode but would need version 3 in byte mode
+  const digits = "12345678901234567890123456789012345678901";
+  const svg = makeSvg(digits, { ecc: "low", margin: 0 });
+  expect(viewBoxWidth(svg)).toBe(21 * 2);
+  expect(await scanCode(svg)).toBe(digits);
+});
+
+test("should encode uppercase text in alphanumeric mode", async () => {
+  const text = "HTTPS://EXAMPLE.COM/ABC";
+  const svg = makeSvg(text, { ecc: "low", margin: 0 });
+  expect(viewBoxWidth(svg)).toBe(21 * 2);
+  expect(await scanCode(svg)).toBe(text);
+});
+
+test("should mix modes for text with long runs of digits", async () => {
+  const text = "Order number 2023110400012345678901234567";
+  const svg = makeSvg(text, { ecc: "low", margin: 0 });
+  expect(viewBoxWidth(svg)).toBe(25 * 2);
+  expect(await scanCode(svg)).toBe(text);
+});
+
+test("should encode binary data as-is", async () => {
+  // Not valid UTF-8, so this would be mangled if it went through a string
+  const bytes = new Uint8Array([0x00, 0xff, 0xc3, 0x28, 0x80, 0x7f]);
+  const code = await decode(makeSvg(bytes));
+  expect(code?.binaryData).toEqual(Array.from(bytes));
+});
+
+test("should accept an ArrayBuffer", async () => {
+  const bytes = new Uint8Array([0xa1, 0x63, 0x6b, 0x65, 0x79, 0xf5]);
+  const code = await decode(makeSvg(bytes.buffer));
+  expect(code?.binaryData).toEqual(Array.from(bytes));
+});
+
+test("should prefix an ECI designator for UTF-8", async () => {
+  const code = await decode(makeSvg("Grüße", { eci: "utf-8" }));
+  expect(code?.data).toBe("Grüße");
+  expect(code?.chunks[0]).toEqual({ type: "eci", assignmentNumber: 26 });
+});
+
+test("should accept any ECI assignment value", async () => {
+  const bytes = new TextEncoder().encode("hello world");
+  for (const eci of [3, 899, 811799]) {
+    const code = await decode(makeSvg(bytes, { eci }));
+    expect(code?.chunks[0]).toEqual({ type: "eci", assignmentNumber: eci });
+  }
+});
+
+test("should take data in other character sets than UTF-8 as bytes", () => {
+  // "hé" in ISO-8859-1
+  const code = makeMatrix(new Uint8Array([0x68, 0xe9]), { eci: 3 });
+  expect(decodeQr(code.modules).text).toBe("hé");
+  expect(() => makeSvg("hé", { eci: 3 })).toThrow("as bytes");
+  expect(() => makeStructuredAppendSvg("hello", { eci: 899 })).toThrow(
+    RangeError
+  );
+  expect(() => makeSvg("hé", { eci: 26 })).not.toThrow();
+});
+
+test("should throw on ECI assignment values out of range", () => {
+  for (const eci of [-1, 1.5, 1000000])
+    expect(() => makeSvg("hello world", { eci })).toThrow(RangeError);
+});
+
+test("should encode Japanese text in kanji mode", async () => {
+  const text = "東京都渋谷区の店舗";
+  const code = await decode(makeSvg(text));
+  expect(code?.data).toBe(text);
+  expect(code?.chunks.map((chunk) => chunk.type)).toEqual(["kanji"]);
+});
+
+test("should mix kanji and byte mode for Japanese and ASCII text", async () => {
+  const text = "注文番号: abc-2023 ありがとうございました";
+  const code = await decode(makeSvg(text));
+  expect(code?.data).toBe(text);
+  expect(code?.chunks.map((chunk) => chunk.type)).toContain("kanji");
+});
+
+test("should not use kanji mode after an ECI designator", async () => {
+  const text = "héllo 日本";
+  const code = await decode(makeSvg(text, { eci: "utf-8" }));
+  expect(code?.data).toBe(text);
+  expect(code?.chunks.map((chunk) => chunk.type)).toEqual(["eci", "byte"]);
+});
+
+test("should keep short payloads in a single structured append symbol", () => {
+  const { svgs, parity } = makeStructuredAppendSvg("AB");
+  expect(svgs).toHaveLength(1);
+  expect(parity).toBe(0x41 ^ 0x42);
+});
+
+test("should split long payloads across structured append symbols", () => {
+  const bytes = new Uint8Array(3000).map((_, i) => (i * 7) & 0xff);
+  const { svgs, svg, parity } = makeStructuredAppendSvg(bytes, {
+    ecc: "high",
+    size: 100,
+    columns: 2,
+  });
+  // Version 40 holds 1273 bytes at high error correction
+  expect(svgs).toHaveLength(3);
+  expect(parity).toBe(bytes.reduce((p, b) => p ^ b, 0));
+  expect(svg).toContain(`viewBox="0 0 200 200"`);
+  expect(svg).toContain(`x="100" y="0"`);
+  expect(svg).toContain(`x="0" y="100"`);
+});
+
+test("should throw when a payload needs more than 16 symbols", () => {
+  expect(() =>
+    makeStructuredAppendSvg(new Uint8Array(16 * 1273 + 1), { ecc: "high" })
+  ).toThrow(RangeError);
+});
+
+test("should pick the smallest Micro QR version", () => {
+  // M1 is 11 modules wide and M4 17, plus a quiet zone of 2 on each side
+  expect(viewBoxWidth(makeMicroSvg("12345", { ecc: "low" }))).toBe(15 * 2);
+  expect(viewBoxWidth(makeMicroSvg("HELLO"))).toBe(17 * 2);
+  expect(viewBoxWidth(makeMicroSvg("hello"))).toBe(19 * 2);
+  expect(viewBoxWidth(makeMicroSvg("Hello, World"))).toBe(21 * 2);
+  expect(viewBoxWidth(makeMicroSvg("12345", { margin: 0 }))).toBe(13 * 2);
+});
+
+test("should match the reference Micro QR symbol", () => {
+  const qr = MicroQrCode._encodeText("01234567", Ecc._LOW, 2, 2);
+  expect(qr._modules.map((row) => row.map(Number).join(""))).toEqual([
+    "1111111010101",
+    "1000001001101",
+    "1011101001101",
+    "1011101011111",
+    "1011101001100",
+    "1000001001101",
+    "1111111010111",
+    "0000000001100",
+    "1110001011101",
+    "0010101101101",
+    "1010101001010",
+    "0010111001110",
+    "1000111000111",
+  ]);
+});
+
+test("should reject what Micro QR cannot encode", () => {
+  expect(() => makeMicroSvg("hello", { ecc: "high" })).toThrow(RangeError);
+  expect(() => makeMicroSvg("x".repeat(36))).toThrow("Data too long");
+});
+
+function viewBoxHeight(svg: string) {
+  return Number(svg.match(/viewBox="0 0 \d+ (\d+)"/)![1]);
+}
+
+test("should pick the rMQR version with the smallest area", () => {
+  // R11x27 plus a quiet zone of 2 on each side, which is smaller than R7x43
+  const svg = makeRmqrSvg("HELLO", { size: 62 });
+  expect(viewBoxWidth(svg)).toBe(31 * 2);
+  expect(viewBoxHeight(svg)).toBe(15 * 2);
+  expect(svg).toContain(`width="62" height="30"`);
+});
+
+test("should keep rMQR symbols to the requested height", () => {
+  const svg = makeRmqrSvg("HELLO", { height: 7, margin: 0 });
+  expect(viewBoxWidth(svg)).toBe(43 * 2);
+  expect(viewBoxHeight(svg)).toBe(7 * 2);
+  const long = makeRmqrSvg("x".repeat(24), { height: 7, margin: 0 });
+  expect(viewBoxWidth(long)).toBe(99 * 2);
+});
+
+test("should match the reference rMQR symbol", () => {
+  const qr = RmqrCode._encodeText("01234567", Ecc._MEDIUM, 7);
+  expect(qr._modules.map((row) => row.map(Number).join(""))).toEqual([
+    "1111111010101010101011101010101010101010111",
+    "1000001001011110110010100110011101011000101",
+    "1011101010111100100011100001011001111111111",
+    "1011101001101000100100110011111001000010001",
+    "1011101000100010101011111101010110110010101",
+    "1000001011111000001010101000101010011010001",
+    "1111111010101010101011101010101010101011111",
+  ]);
+});
+
+test("should reject what rMQR cannot encode", () => {
+  expect(() => makeRmqrSvg("hello", { ecc: "low" })).toThrow(RangeError);
+  expect(() => makeRmqrSvg("hello", { height: 8 })).toThrow(RangeError);
+  expect(() => makeRmqrSvg("x".repeat(60), { height: 7 })).toThrow(
+    "Data too long"
+  );
+});
+
+test("should make svgs with rounded modules that read back", () => {
+  const { modules } = makeMatrix("hello world");
+  for (const moduleStyle of ["rounded", "liquid"] as const) {
+    const svg = makeSvg("hello world", { moduleStyle, size: 400 });
+    expect(svg).toContain(`<path fill="#000"`);
+    expect(svg).not.toContain("stroke");
+    // Every dark module is a shape of its own, starting on the top edge of its cell
+    // and rounded by at most half a module
+    const unit = viewBoxWidth(svg) / (modules.length + 8);
+    const read = modules.map((row) => row.map(() => false));
+    const d = svg.match(/<path fill="#000" d="([^"]*)"/)![1];
+    for (const [, x, y] of d.matchAll(/M([\d.]+) ([\d.]+)/g))
+      read[Number(y) / unit - 4][Math.floor(Number(x) / unit) - 4] = true;
+    expect(read).toEqual(modules);
+    expect(decodeQr(read).text).toBe("hello world");
+  }
+});
+
+test("should draw every module as a circle in the dots style", () => {
+  const svg = makeSvg("hello world", { moduleStyle: "dots", margin: 0 });
+  expect(svg).toContain(
+    `d="M1 0a1 1 0 0 1 1 1a1 1 0 0 1 -1 1a1 1 0 0 1 -1 -1a1 1 0 0 1 1 -1z`
+  );
+});
+
+test("should only round the outer corners in the liquid style", () => {
+  // The top left corner of the finder pattern is the only rounded corner of its first module
+  const svg = makeSvg("hello world", { moduleStyle: "liquid", margin: 0 });
+  expect(svg).toContain(`d="M1 0h1v2h-2v-1a1 1 0 0 1 1 -1z`);
+});
+
+test("should draw modules with a custom style", async () => {
+  const diamond: ModuleStyle = (x, y, size) =>
+    `M${x + size / 2} ${y}l${size / 2} ${size / 2}l${-size / 2} ${size / 2}l${
+      -size / 2
+    } ${-size / 2}z`;
+  const svg = makeSvg("hello world", { moduleStyle: diamond, margin: 0 });
+  expect(svg).toContain(`d="M1 0l1 1l-1 1l-1 -1z`);
+  expect(() =>
+    makeSvg("hello", { moduleStyle: "hearts" as unknown as ModuleStyleName })
+  ).toThrow(RangeError);
+});
+
+test("should make scannable svgs in every finder style", async () => {
+  for (const finderStyle of ["square", "rounded", "circle", "leaf"] as const) {
+    const svg = makeSvg("hello world", { finderStyle, size: 400 });
+    expect(svg).toContain(`fill-rule="evenodd"`);
+    expect(await scanCode(svg)).toBe("hello world");
+  }
+});
+
+test("should draw finder patterns apart from the other modules", async () => {
+  const svg = makeSvg("hello world", {
+    moduleStyle: "dots",
+    finderColor: "#123456",
+    pupilColor: "#654321",
+    margin: 0,
+  });
+  // The top left module is no longer drawn as a dot
+  expect(svg).toContain(`<path fill="#000" d="M`);
+  expect(svg).not.toContain(`d="M1 0a1`);
+  expect(svg).toContain(
+    `<path fill="#123456" fill-rule="evenodd" d="M0 0h14v14h-14v-14zM2 2h10v10h-10v-10z`
+  );
+  expect(svg).toContain(`<path fill="#654321" d="M4 4h6v6h-6v-6z`);
+  // Dots scan more reliably with square finder patterns
+  const dots = makeSvg("hello world", {
+    moduleStyle: "dots",
+    finderStyle: "square",
+    size: 400,
+  });
+  expect(await scanCode(dots)).toBe("hello world");
+});
+
+test("should throw on an unknown finder style", () => {
+  expect(() =>
+    makeSvg("hello", { finderStyle: "star" as unknown as FinderStyle })
+  ).toThrow(RangeError);
+});
+
+test("should keep track of what each module is part of", () => {
+  const counts: Record<string, number> = {};
+  for (const row of encode("hello world")._moduleTypes)
+    for (const type of row) counts[type] = (counts[type] ?? 0) + 1;
+  // Version 1 has 26 codewords and 8 + 2 timing modules between the finder patterns
+  expect(counts).toEqual({
+    finder: 3 * 49,
+    separator: 3 * 15,
+    timing: 10,
+    format: 2 * 15 + 1,
+    data: 26 * 8,
+  });
+});
+
+test("should draw the parts of the symbol in colors of their own", async () => {
+  const text = "https://example.com/with/an/alignment/pattern";
+  const svg = makeSvg(text, {
+    color: "#222",
+    timingColor: "#800000",
+    alignmentColor: "#006400",
+    finderColor: "#000080",
+  });
+  for (const color of ["#222", "#800000", "#006400", "#000080"])
+    expect(svg).toContain(`"${color}"`);
+  expect(await scanCode(svg)).toBe(text);
+});
+
+test("should fill with gradients defined once", async () => {
+  const gradient: Gradient = { colors: ["#000", "#335"], angle: 90 };
+  const svg = makeSvg("hello world", {
+    color: gradient,
+    finderColor: gradient,
+    pupilColor: { type: "radial", colors: ["#533", "#000"] },
+    id: "logo",
+  });
+  expect(svg).toContain(
+    `<defs><linearGradient id="logo-gradient-0" gradientUnits="userSpaceOnUse" x1="29" y1="0" x2="29" y2="58"><stop offset="0" stop-color="#000" /><stop offset="1" stop-color="#335" /></linearGradient><radialGradient id="logo-gradient-1"`
+  );
+  expect(svg.match(/url\(#logo-gradient-0\)/g)).toHaveLength(2);
+  expect(await scanCode(svg)).toBe("hello world");
+  expect(() => makeSvg("hello", { color: { colors: ["#000"] } })).toThrow(
+    RangeError
+  );
+});
+
+test("should make a scannable svg with a logo", async () => {
+  const text = "https://example.com/logo";
+  const logo = { src: "data:image/png;base64,iVBORw0KGgo=" };
+  const svg = makeSvg(text, { ecc: "low", logo });
+  // The error correction level is raised to at least quartile
+  expect(svg).toBe(makeSvg(text, { ecc: "quartile", logo }));
+  expect(svg).toContain(
+    `<image href="data:image/png;base64,iVBORw0KGgo=" x="31.2" y="31.2" width="11.6" height="11.6" />`
+  );
+  // The modules under the logo are cleared, and scanning relies on error correction
+  expect(await scanCode(svg)).toBe(text);
+});
+
+test("should scale svg markup into the logo area", () => {
+  const src = `<?xml version="1.0"?><svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"><circle cx="5" cy="5" r="5" /></svg>`;
+  const svg = makeSvg("https://example.com/logo", {
+    logo: { src, size: 0.25, padding: 0 },
+  });
+  expect(svg).toContain(
+    `<svg x="29.75" y="29.75" width="14.5" height="14.5" viewBox="0 0 10 10" xmlns="http://www.w3.org/2000/svg"><circle cx="5" cy="5" r="5" /></svg></svg>`
+  );
+  expect(svg).not.toContain("<?xml");
+});
+
+test("should refuse logos that cover too much", () => {
+  const text = "https://example.com/logo";
+  expect(() => makeSvg(text, { logo: { src: "logo.png", size: 0.3 } })).toThrow(
+    "error correction"
+  );
+  expect(() => makeSvg(text, { logo: { src: "logo.png", size: 0.8 } })).toThrow(
+    "function modules"
+  );
+  expect(() => makeSvg(text, { logo: { src: "<p>logo</p>" } })).toThrow(
+    RangeError
+  );
+});
+
+function countTypes(types: MatrixModuleType[][]) {
+  const counts: Partial<Record<MatrixModuleType, number>> = {};
+  for (const row of types)
+    for (const type of row) counts[type] = (counts[type] ?? 0) + 1;
+  return counts;
+}
+
+test("should expose the module matrix", () => {
+  const matrix = makeMatrix("hello world");
+  const { modules, types, ...meta } = matrix;
+  expect(meta).toEqual({
+    symbol: "qr",
+    version: 1,
+    ecc: "quartile",
+    mask: 6,
+    width: 21,
+    height: 21,
+  });
+  expect(modules).toEqual(encode("hello world")._modules);
+  // Version 1-Q has 13 data and 13 error correction codewords
+  expect(countTypes(types)).toEqual({
+    finder: 3 * 49,
+    separator: 3 * 15,
+    timing: 10,
+    format: 2 * 15 + 1,
+    data: 13 * 8,
+    ecc: 13 * 8,
+  });
+  // The matrix is a copy
+  modules[0][0] = false;
+  expect(makeMatrix("hello world").modules[0][0]).toBe(true);
+});
+
+test("should expose the module matrix of micro and rectangular codes", () => {
+  const micro = makeMicroMatrix("hello");
+  expect(micro).toMatchObject({ symbol: "micro", version: 3, ecc: "medium" });
+  // The last data codeword of M3 only has 4 bits
+  expect(countTypes(micro.types)).toMatchObject({ data: 68, ecc: 8 * 8 });
+  const rmqr = makeRmqrMatrix("01234567");
+  expect(rmqr).toMatchObject({
+    symbol: "rmqr",
+    version: 10,
+    ecc: "high",
+    mask: undefined,
+    width: 27,
+    height: 11,
+  });
+  // R11x27-H has 5 data and 10 error correction codewords, and 2 remainder bits
+  expect(countTypes(rmqr.types)).toMatchObject({
+    data: 5 * 8 + 2,
+    ecc: 10 * 8,
+  });
+});
+
+// Reads back the pixels of a two color palette PNG as RGBA
+function readPng(png: Uint8Array) {
+  const view = new DataView(png.buffer, png.byteOffset);
+  const chunks: Record<string, Uint8Array> = {};
+  const idat: Uint8Array[] = [];
+  for (let i = 8; i < png.length; ) {
+    const length = view.getUint32(i);
+    const type = String.fromCharCode(...png.subarray(i + 4, i + 8));
+    const data = png.subarray(i + 8, i + 8 + length);
+    if (type === "IDAT") idat.push(data);
+    else chunks[type] = data;
+    i += 12 + length;
+  }
+  const width = view.getUint32(16);
+  const height = view.getUint32(20);
+  const raw = inflateSync(Buffer.concat(idat));
+  const rowLength = 1 + Math.ceil(width / 8);
+  const palette = chunks.PLTE;
+  const alpha = chunks.tRNS ?? [255, 255];
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++)
+    for (let x = 0; x < width; x++) {
+      const bit = (raw[y * rowLength + 1 + (x >>> 3)] >>> (7 - (x & 7))) & 1;
+      rgba.set(
+        [...palette.subarray(bit * 3, bit * 3 + 3), alpha[bit]],
+        (y * width + x) * 4
+      );
+    }
+  return { width, height, rgba, chunks };
+}
+
+test("should make a png that scans", () => {
+  const text = "https://example.com/png";
+  const png = makePng(text, { scale: 3, margin: 2, color: "#1a3" });
+  const { width, height, rgba, chunks } = readPng(png);
+  // Version 2 is 25 modules wide
+  expect([width, height]).toEqual([(25 + 4) * 3, (25 + 4) * 3]);
+  expect([...chunks.PLTE]).toEqual([255, 255, 255, 0x11, 0xaa, 0x33]);
+  expect(chunks.tRNS).toBeUndefined();
+  expect(jsQR(rgba, width, height)?.data).toBe(text);
+});
+
+test("should make pngs with transparency", () => {
+  const png = makePng("hello", { background: "transparent" });
+  expect([...readPng(png).chunks.tRNS]).toEqual([0, 255]);
+  expect(() => makePng("hello", { color: "red" })).toThrow(RangeError);
+  expect(() => makePng("hello", { scale: 2.5 })).toThrow(RangeError);
+});
+
+test("should deflate data that zlib inflates", () => {
+  const data = new Uint8Array(100000);
+  // Long runs, repeats at all distances and incompressible stretches
+  for (let i = 0; i < data.length; i++)
+    data[i] = i < 30000 ? (i >> 9) & 1 : (i * 7919) % 251 ^ (i >> 12);
+  expect(inflateSync(zlib(data))).toEqual(Buffer.from(data));
+  expect(inflateSync(zlib(new Uint8Array(0)))).toHaveLength(0);
+});
+
+// Scans a matrix of dark modules, drawn 4 pixels per module
+function scanMatrix(matrix: boolean[][]) {
+  const scale = 4;
+  const width = matrix[0].length * scale;
+  const height = matrix.length * scale;
+  const rgba = new Uint8ClampedArray(width * height * 4).fill(255);
+  for (let y = 0; y < height; y++)
+    for (let x = 0; x < width; x++)
+      if (matrix[Math.floor(y / scale)][Math.floor(x / scale)])
+        rgba.fill(0, (y * width + x) * 4, (y * width + x) * 4 + 3);
+  return jsQR(rgba, width, height)?.data;
+}
+
+// Reads half blocks back into rows of modules, with the dark modules in ink
+function readHalfBlocks(text: string) {
+  const rows: boolean[][] = [];
+  for (const line of text.split("\n")) {
+    const cells = [...line];
+    rows.push(cells.map((c) => c === "▀" || c === "█"));
+    rows.push(cells.map((c) => c === "▄" || c === "█"));
+  }
+  return rows;
+}
+
+test("should print a scannable code with half blocks", () => {
+  const text = "https://example.com/terminal";
+  const output = makeText(text, { margin: 2 });
+  const modules = encode(text)._modules;
+  // Two rows per line, and the odd row out adds to the quiet zone
+  const lines = output.split("\n");
+  expect(lines).toHaveLength((modules.length + 5) / 2);
+  expect(lines.every((line) => [...line].length === modules.length + 4)).toBe(
+    true
+  );
+  const rows = readHalfBlocks(output);
+  expect(rows.slice(2, -3).map((row) => row.slice(2, -2))).toEqual(modules);
+  expect(scanMatrix(rows)).toBe(text);
+  // Inverted, the blocks draw the light modules and the quiet zone
+  const inverted = readHalfBlocks(makeText(text, { margin: 2, invert: true }));
+  expect(inverted).toEqual(rows.map((row) => row.map((dark) => !dark)));
+});
+
+test("should print a scannable code in ascii", () => {
+  const text = "https://example.com/ascii";
+  const output = makeText(text, { charset: "ascii" });
+  const rows = output.split("\n").map((line) => {
+    expect(line).toMatch(/^(##|  )+$/);
+    return line.match(/../g)!.map((pair) => pair === "##");
+  });
+  expect(rows.slice(4, -4).map((row) => row.slice(4, -4))).toEqual(
+    encode(text)._modules
+  );
+  expect(scanMatrix(rows)).toBe(text);
+  expect(() => makeText(text, { charset: "ebcdic" as "ascii" })).toThrow(
+    RangeError
+  );
+});
+
+test("should print a code in ansi colors", () => {
+  const text = "https://example.com/ansi";
+  const output = makeText(text, { ansi: true });
+  // Follow the text and background colors from escape to escape
+  const rows: boolean[][] = [];
+  for (const line of output.split("\n")) {
+    expect(line.endsWith("\x1b[0m")).toBe(true);
+    const top: boolean[] = [];
+    const bottom: boolean[] = [];
+    let foreground = false;
+    let background = false;
+    for (const [, code, char] of line.matchAll(/\x1b\[(\d+)m|(▀)/g)) {
+      if (code === "30" || code === "97") foreground = code === "30";
+      else if (code === "40" || code === "107") background = code === "40";
+      else if (char) {
+        top.push(foreground);
+        bottom.push(background);
+      }
+    }
+    rows.push(top, bottom);
+  }
+  expect(scanMatrix(rows)).toBe(text);
+  expect(rows[4].slice(4, -4)).toEqual(encode(text)._modules[0]);
+  // Inverted, the light modules are black
+  const inverted = makeText(text, { ansi: true, invert: true });
+  expect(inverted.startsWith("\x1b[30m\x1b[40m▀")).toBe(true);
+});
+
+// Checks the cross-reference table and returns the page size and rectangles in points
+function readPdf(pdf: Uint8Array) {
+  const text = Buffer.from(pdf).toString("latin1");
+  expect(text.startsWith("%PDF-1.4\n")).toBe(true);
+  const xref = Number(text.match(/startxref\n(\d+)\n%%EOF\n$/)![1]);
+  expect(text.slice(xref, xref + 5)).toBe("xref\n");
+  const offsets = [...text.slice(xref).matchAll(/(\d{10}) 00000 n \n/g)];
+  offsets.forEach(([, offset], i) =>
+    expect(text.slice(Number(offset)).startsWith(`${i + 1} 0 obj\n`)).toBe(true)
+  );
+  const mediaBox = text.match(/\/MediaBox \[0 0 ([\d.]+) ([\d.]+)\]/)!;
+  const length = Number(text.match(/\/Length (\d+)/)![1]);
+  const start = text.indexOf("stream\n") + 7;
+  expect(text.slice(start + length, start + length + 10)).toBe("\nendstream");
+  const content = inflateSync(pdf.subarray(start, start + length)).toString();
+  const rects = [
+    ...content.matchAll(/([\d.]+) ([\d.]+) ([\d.]+) ([\d.]+) re/g),
+  ];
+  return {
+    page: [Number(mediaBox[1]), Number(mediaBox[2])],
+    content,
+    rects: rects.map((match) => match.slice(1).map(Number)),
+  };
+}
+
+test("should make a pdf with the modules as rectangles", () => {
+  const text = "https://example.com/pdf";
+  const modules = encode(text)._modules;
+  const { page, content, rects } = readPdf(makePdf(text, { moduleSize: 0.5 }));
+  // 25 modules and the quiet zone at 0.5 mm, in points
+  const mm = 72 / 25.4;
+  expect(page).toEqual([
+    +(33 * 0.5 * mm).toFixed(3),
+    +(33 * 0.5 * mm).toFixed(3),
+  ]);
+  expect(content.startsWith("0 g\n")).toBe(true);
+  // Fill the rectangles back into modules, counting rows from the top
+  const matrix = modules.map((row) => row.map(() => false));
+  for (const [x, y, w, h] of rects) {
+    expect(h).toBeCloseTo(0.5 * mm, 3);
+    const row = Math.round(page[1] / (0.5 * mm) - y / (0.5 * mm)) - 4 - 1;
+    const column = Math.round(x / (0.5 * mm)) - 4;
+    for (let i = 0; i < Math.round(w / (0.5 * mm)); i++)
+      matrix[row][column + i] = true;
+  }
+  expect(matrix).toEqual(modules);
+  // One rectangle per run of dark modules
+  expect(rects.length).toBeLessThan(
+    modules.flat().filter((dark) => dark).length / 2
+  );
+});
+
+test("should place the code on a page", () => {
+  const mm = 72 / 25.4;
+  const { page, content, rects } = readPdf(
+    makePdf("hello", {
+      pageSize: "a4",
+      x: 20,
+      y: 30,
+      color: "#1a3",
+      background: "#ffffff",
+    })
+  );
+  expect(page).toEqual([595.276, 841.89]);
+  // The background covers the quiet zone, its top left corner 20 mm and 30 mm from the edges
+  const [x, y, w, h] = rects[0];
+  expect(x).toBeCloseTo(20 * mm, 2);
+  expect(y + h).toBeCloseTo(page[1] - 30 * mm, 2);
+  expect(w).toBeCloseTo(29 * mm, 2);
+  expect(content).toContain("1 g ");
+  expect(content).toContain("0.067 0.667 0.2 rg");
+  expect(() => makePdf("hello", { pageSize: [20, 20] })).toThrow(
+    "does not fit"
+  );
+  expect(() => makePdf("hello", { pageSize: "a6", x: 90 })).toThrow(
+    "off the page"
+  );
+  expect(() => makePdf("hello", { pageSize: "b5" as "a5" })).toThrow(
+    RangeError
+  );
+  for (const pageSize of [[100], [100, 100, 100], [100, Infinity], [-100, 100]])
+    expect(() =>
+      makePdf("hello", { pageSize: pageSize as [number, number] })
+    ).toThrow("positive width and height");
+  expect(() => makePdf("hello", { color: "#0008" })).toThrow(RangeError);
+});
+
+test("should trace outlines with holes", () => {
+  const rows = ["###.", "#.#.", "###.", "...#"];
+  const outlines = traceOutlines(
+    rows.map((row) => [...row].map((c) => c == "#"))
+  );
+  expect(outlines).toEqual([
+    {
+      outer: [
+        [3, 0],
+        [3, 3],
+        [0, 3],
+        [0, 0],
+      ],
+      holes: [
+        [
+          [1, 1],
+          [1, 2],
+          [2, 2],
+          [2, 1],
+        ],
+      ],
+    },
+    // Touching the ring at a corner only, so a polygon of its own
+    {
+      outer: [
+        [4, 3],
+        [4, 4],
+        [3, 4],
+        [3, 3],
+      ],
+      holes: [],
+    },
+  ]);
+});
+
+test("should make a scannable svg of filled outlines", async () => {
+  const text = "https://example.com/outline";
+  const svg = makeSvg(text, { moduleStyle: "outline", size: 300 });
+  expect(svg).not.toContain("stroke");
+  expect(await scanCode(svg)).toBe(text);
+  // One subpath per outline and hole instead of one per run of modules
+  const outlines = traceOutlines(encode(text)._modules);
+  const polygons = outlines.reduce((n, o) => n + 1 + o.holes.length, 0);
+  expect(svg.match(/M/g)).toHaveLength(polygons);
+});
+
+test("should make a dxf of closed polylines", () => {
+  const text = "https://example.com/dxf";
+  const dxf = makeDxf(text, { moduleSize: 0.5, layer: "QR" });
+  const lines = dxf.trimEnd().split("\n");
+  // Group codes and values alternate, and the file ends with EOF
+  expect(lines.length % 2).toBe(0);
+  expect(lines.slice(-2)).toEqual(["0", "EOF"]);
+  expect(dxf).toContain("$ACADVER\n1\nAC1009");
+  const outlines = traceOutlines(encode(text)._modules);
+  const polygons = outlines.reduce((n, o) => n + 1 + o.holes.length, 0);
+  expect(dxf.match(/\nPOLYLINE\n8\nQR\n66\n1\n70\n1\n/g)).toHaveLength(
+    polygons
+  );
+  expect(dxf.match(/\nSEQEND\n/g)).toHaveLength(polygons);
+  // The top left finder pattern comes first, with y flipped so that its top edge is at 25 * 0.5
+  const [, x, y] = dxf.match(/VERTEX\n8\nQR\n10\n(.*)\n20\n(.*)\n/)!;
+  expect([Number(x), Number(y)]).toEqual([3.5, 12.5]);
+  expect(() => makeDxf(text, { moduleSize: 0 })).toThrow(RangeError);
+});
+
+type Vector = number[];
+
+function readStl(stl: Uint8Array) {
+  const view = new DataView(stl.buffer, stl.byteOffset);
+  const count = view.getUint32(80, true);
+  expect(stl.length).toBe(84 + count * 50);
+  const triangles: Vector[][] = [];
+  for (let i = 0; i < count; i++) {
+    const floats = [];
+    for (let j = 0; j < 12; j++)
+      floats.push(view.getFloat32(84 + i * 50 + j * 4, true));
+    triangles.push([0, 3, 6, 9].map((j) => floats.slice(j, j + 3)));
+  }
+  return triangles;
+}
+
+test("should make a watertight stl", () => {
+  const text = "https://example.com/stl";
+  const triangles = readStl(
+    makeStl(text, {
+      moduleSize: 3,
+      baseThickness: 2.5,
+      moduleHeight: 1.5,
+      margin: 2,
+    })
+  );
+  // Every edge is used once in each direction, by two triangles
+  const edges = new Map<string, number>();
+  let volume = 0;
+  for (const [normal, a, b, c] of triangles) {
+    for (const [p, q] of [
+      [a, b],
+      [b, c],
+      [c, a],
+    ]) {
+      const key = `${p}>${q}`;
+      edges.set(key, (edges.get(key) ?? 0) + 1);
+    }
+    // The vertices run counterclockwise around the normal, seen from outside
+    const u = b.map((n, i) => n - a[i]);
+    const v = c.map((n, i) => n - a[i]);
+    const cross = [
+      u[1] * v[2] - u[2] * v[1],
+      u[2] * v[0] - u[0] * v[2],
+      u[0] * v[1] - u[1] * v[0],
+    ];
+    expect(cross.reduce((sum, n, i) => sum + n * normal[i], 0)).toBeGreaterThan(
+      0
+    );
+    // The divergence theorem adds up the signed volumes under the triangles
+    volume +=
+      (a[0] * (b[1] * c[2] - b[2] * c[1]) -
+        a[1] * (b[0] * c[2] - b[2] * c[0]) +
+        a[2] * (b[0] * c[1] - b[1] * c[0])) /
+      6;
+  }
+  for (const [key, count] of edges) {
+    const [p, q] = key.split(">");
+    expect([key, count, edges.get(`${q}>${p}`)]).toEqual([key, 1, 1]);
+  }
+  // Version 2 is 25 modules wide, on a plate 29 modules wide
+  const modules = encode(text)._modules;
+  const dark = modules.flat().filter((d) => d).length;
+  // Dark modules that only touch at a corner each give up about 0.01 modules
+  // there, the two slivers between the corner and the pulled in one
+  let pinches = 0;
+  for (let y = 1; y < modules.length; y++)
+    for (let x = 1; x < modules.length; x++) {
+      const [nw, ne] = [modules[y - 1][x - 1], modules[y - 1][x]];
+      const [sw, se] = [modules[y][x - 1], modules[y][x]];
+      if (nw == se && ne == sw && nw != ne) pinches++;
+    }
+  expect(pinches).toBeGreaterThan(0);
+  expect(volume).toBeCloseTo(
+    29 * 29 * 9 * 2.5 + (dark - pinches * 2 * 0.01) * 9 * 1.5,
+    0
+  );
+  // Neighbouring dark modules share a top and no walls, so far fewer
+  // triangles than separate blocks with 6 sides each
+  expect(triangles.length).toBeLessThan(29 * 29 * 2 * 2 + dark * 6 * 2);
+});
+
+test("should make an ascii stl of the same mesh", () => {
+  const opts = { moduleSize: 1.5, margin: 1 };
+  const ascii = makeAsciiStl("hello", opts);
+  const binary = readStl(makeStl("hello", opts));
+  expect(
+    ascii.startsWith(
+      "solid qrcode\nfacet normal 0 0 1\nouter loop\nvertex 0 33 2\n"
+    )
+  ).toBe(true);
+  expect(ascii.endsWith("endloop\nendfacet\nendsolid qrcode\n")).toBe(true);
+  expect(ascii.match(/facet normal/g)).toHaveLength(binary.length);
+  expect(() => makeStl("hello", { moduleHeight: 0 })).toThrow(RangeError);
+});
+
+// Runs the command line tool, returning its exit code, output and errors
+function cli(args: string[], stdin = "") {
+  const out: Array<string | Uint8Array> = [];
+  const errors: string[] = [];
+  const code = runCli(args, {
+    readStdin: () => stdin,
+    write: (data) => out.push(data),
+    error: (message) => errors.push(message),
+  });
+  return { code, out: out.join(""), bytes: out[0], errors };
+}
+
+test("should make codes from the command line", () => {
+  const text = "https://example.com/cli";
+  const opts = { ecc: "high", margin: 2, color: "#123", mask: 3 } as const;
+  const args = [
+    "--ecc",
+    "high",
+    "--margin",
+    "2",
+    "--color",
+    "#123",
+    "--mask",
+    "3",
+  ];
+  expect(cli([...args, text]).out).toBe(makeSvg(text, opts));
+  // A final line break in stdin is left out
+  expect(cli(args, text + "\n").out).toBe(makeSvg(text, opts));
+  const dir = mkdtempSync(join(tmpdir(), "qr-"));
+  const input = join(dir, "input.txt");
+  writeFileSync(input, text);
+  expect(cli(["-i", input, "-f", "txt", "--ansi"]).out).toBe(
+    makeText(text, { ansi: true }) + "\n"
+  );
+  // The format follows the extension of the output file
+  const output = join(dir, "code.png");
+  expect(cli(["-o", output, "--scale", "2", text]).code).toBe(0);
+  expect(new Uint8Array(readFileSync(output))).toEqual(
+    makePng(text, { scale: 2 })
+  );
+  expect(cli(["--symbol", "micro", "12345"]).out).toBe(makeMicroSvg("12345"));
+  expect(cli(["-f", "pdf", "--page-size", "100x100", text]).bytes).toEqual(
+    makePdf(text, { pageSize: [100, 100] })
+  );
+});
+
+test("should report command line errors", () => {
+  expect(cli(["--margin", "wide", "hello"])).toMatchObject({
+    code: 1,
+    errors: ["tiny-qrcode-svg: --margin must be a number"],
+  });
+  expect(cli(["--ecc", "extreme", "hello"]).code).toBe(1);
+  expect(cli(["--symbol", "rmqr", "-f", "png", "hello"]).code).toBe(1);
+  expect(cli(["--unknown", "hello"]).code).toBe(1);
+  expect(cli(["--logo-size", "0.2", "hello"])).toMatchObject({
+    code: 1,
+    errors: ["tiny-qrcode-svg: --logo-size and --logo-padding need a --logo"],
+  });
+  expect(cli(["--help"]).out).toContain("--min-version VALUE");
+});
+
+test("should line up the help after the longest flag", () => {
+  const lines = cli(["--help"]).out.split("\n");
+  // Every line of help starts in the same column, at least two spaces after the flag
+  const columns = lines
+    .filter((line) => line.startsWith("  "))
+    .map((line) => line.match(/^ {2}(\S+( \S+)*)? {2,}/)?.[0].length);
+  expect(new Set(columns).size).toBe(1);
+  expect(lines).toContain(
+    "  --alignment-color VALUE  Color of the alignment patterns"
+  );
+});
+
+test("should write numbered files in batch mode", () => {
+  const dir = mkdtempSync(join(tmpdir(), "qr-"));
+  const lines = Array.from({ length: 10 }, (_, i) => `item ${i + 1}`);
+  cli(["--batch", "lines", "-o", join(dir, "item.svg")], lines.join("\n"));
+  const files = readdirSync(dir).sort();
+  expect(files).toHaveLength(10);
+  expect(files[0]).toBe("item-01.svg");
+  expect(readFileSync(join(dir, "item-10.svg"), "utf8")).toBe(
+    makeSvg("item 10")
+  );
+
+  const csv =
+    'sku,url\nA1,"https://example.com/a?x=1,2"\nB2,https://example.com/b\n';
+  const csvDir = mkdtempSync(join(tmpdir(), "qr-"));
+  const args = ["--batch", "csv", "--column", "url", "-o"];
+  expect(cli([...args, join(csvDir, "code.txt")], csv).code).toBe(0);
+  expect(readdirSync(csvDir).sort()).toEqual(["code-1.txt", "code-2.txt"]);
+  // Quoted fields keep their commas
+  expect(readFileSync(join(csvDir, "code-1.txt"), "utf8")).toBe(
+    makeText("https://example.com/a?x=1,2") + "\n"
+  );
+  expect(cli(["--batch", "csv", "--column", "name"], csv).errors).toEqual([
+    "tiny-qrcode-svg: No column named name",
+  ]);
+});
+
+test("should limit the version and fix the mask", () => {
+  expect(makeMatrix("hello", { minVersion: 5, mask: 2 })).toMatchObject({
+    version: 5,
+    mask: 2,
+  });
+  expect(makeMicroMatrix("1", { minVersion: 3, mask: 1 })).toMatchObject({
+    version: 3,
+    mask: 1,
+  });
+  expect(() => makeSvg("x".repeat(100), { maxVersion: 3 })).toThrow(
+    "Data too long"
+  );
+  expect(() => makeSvg("hello", { mask: 8 })).toThrow(RangeError);
+  // Structured Append splits into more symbols to stay within the largest version
+  const { svgs } = makeStructuredAppendSvg("x".repeat(100), { maxVersion: 3 });
+  expect(svgs.length).toBeGreaterThan(1);
+});
+
+test("should decode what it encodes", () => {
+  expect(decodeQr(makeSvg("Hello, world! 123", { mask: 3 }))).toMatchObject({
+    text: "Hello, world! 123",
+    version: 2,
+    ecc: "quartile",
+    mask: 3,
+    corrected: 0,
+  });
+  const text = "点茗 0123456789 HELLO ü";
+  expect(decodeQr(makeMatrix(text, { eci: "utf-8" }).modules)).toMatchObject({
+    text,
+    eci: 26,
+  });
+  const bytes = new Uint8Array(400).map((_, i) => (i * 37) % 256);
+  const decoded = decodeQr(makeMatrix(bytes, { ecc: "quartile" }).modules);
+  expect(decoded.version).toBeGreaterThanOrEqual(7);
+  expect(decoded.bytes).toEqual(bytes);
+});
+
+test("should correct wrong modules", () => {
+  const { modules } = makeMatrix("https://example.com", { ecc: "high" });
+  const size = modules.length;
+  // The first codewords sit in the bottom right corner
+  for (let y = size - 3; y < size; y++)
+    for (let x = size - 3; x < size; x++) modules[y][x] = !modules[y][x];
+  // And the format information survives a wrong bit in both copies
+  modules[8][0] = !modules[8][0];
+  modules[size - 1][8] = !modules[size - 1][8];
+  const decoded = decodeQr(modules);
+  expect(decoded.text).toBe("https://example.com");
+  expect(decoded.corrected).toBeGreaterThan(0);
+  for (let y = 15; y < size; y++)
+    for (let x = 9; x < size; x++) modules[y][x] = !modules[y][x];
+  expect(() => decodeQr(modules)).toThrow("too many errors");
+});
+
+test("should decode the symbols of a structured append message", () => {
+  const data = "Structured Append über alles ".repeat(4);
+  const { svgs, parity } = makeStructuredAppendSvg(data, { maxVersion: 3 });
+  const decoded = svgs.map((svg) => decodeQr(svg));
+  expect(decoded.map(({ text }) => text).join("")).toBe(data);
+  expect(() =>
+    makeStructuredAppendSvg(data, { maxVersion: 3, verify: true })
+  ).not.toThrow();
+  decoded.forEach(({ structuredAppend }, i) =>
+    expect(structuredAppend).toEqual({ index: i, total: svgs.length, parity })
+  );
+});
+
+test("should verify that the code reads back as the data", () => {
+  expect(makeSvg("hello", { verify: true })).toBe(makeSvg("hello"));
+  const logo = { src: "data:image/png;base64,iVBORw0KGgo=" };
+  expect(() =>
+    makeSvg("https://example.com/logo", { logo, verify: true })
+  ).not.toThrow();
+  expect(() =>
+    makeSvg(new Uint8Array([0, 255]), { verify: true })
+  ).not.toThrow();
+  expect(() => decodeQr("<svg></svg>")).toThrow("no viewBox");
+});
+
+test("should decode svgs with styled finders and any quiet zone", () => {
+  const text = "https://example.com/finders";
+  for (const margin of [0, 2, 4, 6]) {
+    const svg = makeSvg(text, {
+      margin,
+      finderStyle: "rounded",
+      finderColor: "#c00",
+      pupilColor: "#00c",
+    });
+    expect(decodeQr(svg).text).toBe(text);
+    expect(decodeQr(svg, margin).text).toBe(text);
+  }
+  const inverted = makeSvg(text, { invert: true, margin: 1 });
+  expect(decodeQr(inverted).text).toBe(text);
+  expect(() => decodeQr(inverted, 3)).toThrow("margin of 3");
+});
+
+test("should build wifi payloads with escaping", () => {
+  const wifi = makeWifi({ ssid: 'Café "1";2', password: "a:b\\c,d" });
+  expect(wifi).toBe('WIFI:T:WPA;S:Café \\"1\\"\\;2;P:a\\:b\\\\c\\,d;;');
+  expect(decodeQr(makeSvg(wifi)).text).toBe(wifi);
+  // Hex values are quoted so that they stay text
+  expect(makeWifi({ ssid: "cafe", password: "12345678", hidden: true })).toBe(
+    'WIFI:T:WPA;S:"cafe";P:"12345678";H:true;;'
+  );
+  expect(makeWifi({ ssid: "Guest" })).toBe("WIFI:T:nopass;S:Guest;;");
+  expect(() => makeWifi({ ssid: "Home", security: "WEP" })).toThrow(
+    "WEP networks need a password"
+  );
+});
+
+test("should build vcards with escaping and folding", () => {
+  const contact = {
+    firstName: "Zoë",
+    lastName: "Müller-Lüdenscheidt",
+    organization: "Example, Inc.",
+    phones: ["+1 555 0100", { number: "+1 555 0101", type: "work" }],
+    emails: ["zoe@example.com"],
+    address: { street: "1 Main St; Apt 2", city: "Springfield" },
+    birthday: "1990-01-31",
+    note: "Café meetings on Mondays and Thursdays only, please call ahead first\nThanks",
+  };
+  const v3 = makeVcard(contact);
+  expect(v3.split("\r\n")).toEqual([
+    "BEGIN:VCARD",
+    "VERSION:3.0",
+    "N:Müller-Lüdenscheidt;Zoë;;;",
+    "FN:Zoë Müller-Lüdenscheidt",
+    "ORG:Example\\, Inc.",
+    "TEL:+1 555 0100",
+    "TEL;TYPE=WORK:+1 555 0101",
+    "EMAIL:zoe@example.com",
+    "ADR:;;1 Main St\\; Apt 2;Springfield;;;",
+    "BDAY:1990-01-31",
+    "NOTE:Café meetings on Mondays and Thursdays only\\, please call ahead first",
+    " \\nThanks",
+    "END:VCARD",
+    "",
+  ]);
+  // Lines are folded at 75 bytes, the é taking two
+  expect(new TextEncoder().encode(v3.split("\r\n")[10]).length).toBe(75);
+  const v4 = makeVcard(contact, 4);
+  expect(v4).toContain("VERSION:4.0\r\n");
+  expect(v4).toContain("TEL;TYPE=work:+1 555 0101\r\n");
+  expect(v4).toContain("BDAY:19900131\r\n");
+  expect(() => makeVcard({})).toThrow("The contact needs a name");
+});
+
+test("should build mecard, geo, sms and mailto payloads", () => {
+  expect(
+    makeMecard({
+      firstName: "John",
+      lastName: "Doe",
+      phones: ["+1 555 0100"],
+      url: "https://example.com",
+      note: "Back at 5:30; maybe",
+    })
+  ).toBe(
+    "MECARD:N:Doe,John;TEL:+1 555 0100;URL:https\\://example.com;NOTE:Back at 5\\:30\\; maybe;;"
+  );
+  expect(makeGeo(52.52, 13.405)).toBe("geo:52.52,13.405");
+  expect(makeGeo(-33.9, 18.4, 1085)).toBe("geo:-33.9,18.4,1085");
+  expect(() => makeGeo(91, 0)).toThrow("Latitude");
+  expect(makeSms("+1 (555) 010-0", "Hi: see you")).toBe(
+    "SMSTO:+15550100:Hi: see you"
+  );
+  expect(() => makeSms("call me")).toThrow("Invalid phone number");
+  expect(
+    makeMailto({
+      to: ["a@example.com", "b+c@example.com"],
+      cc: "d@example.com",
+      subject: "Hello & welcome",
+      body: "Line 1\nLine 2",
+    })
+  ).toBe(
+    "mailto:a@example.com,b%2Bc@example.com?cc=d@example.com&subject=Hello%20%26%20welcome&body=Line%201%0D%0ALine%202"
+  );
+});
+
+test("should build calendar events", () => {
+  const event = makeEvent({
+    summary: "Launch; party, finally",
+    start: new Date("2026-10-18T18:00:00Z"),
+    end: new Date("2026-10-18T22:30:00Z"),
+    location: "Rooftop",
+  });
+  expect(event).toBe(
+    "BEGIN:VEVENT\r\nSUMMARY:Launch\\; party\\, finally\r\nDTSTART:20261018T180000Z\r\nDTEND:20261018T223000Z\r\nLOCATION:Rooftop\r\nEND:VEVENT\r\n"
+  );
+  const allDay = makeEvent({
+    summary: "Offsite",
+    start: new Date("2026-12-30T00:00:00Z"),
+    end: new Date("2026-12-31T00:00:00Z"),
+    allDay: true,
+  });
+  // The end date is the day after the last day
+  expect(allDay).toContain("DTSTART;VALUE=DATE:20261230\r\n");
+  expect(allDay).toContain("DTEND;VALUE=DATE:20270101\r\n");
+  expect(() =>
+    makeEvent({
+      summary: "Backwards",
+      start: new Date("2026-10-18T18:00:00Z"),
+      end: new Date("2026-10-18T17:00:00Z"),
+    })
+  ).toThrow("ends before it starts");
+});
+
+test("should make epc codes of sepa credit transfers", async () => {
+  const transfer = {
+    name: "Red Cross of Belgium",
+    iban: "BE72 0000 0000 1616",
+    bic: "BPOTBEB1",
+    amount: 1,
+    purpose: "CHAR",
+    text: "Urgency fund",
+  };
+  const payload = makeEpc(transfer);
+  expect(payload).toBe(
+    "BCD\n002\n1\nSCT\nBPOTBEB1\nRed Cross of Belgium\nBE72000000001616\nEUR1.00\nCHAR\n\nUrgency fund"
+  );
+  const svg = makeEpcSvg(transfer, { verify: true });
+  expect(decodeQr(svg)).toMatchObject({ text: payload, ecc: "medium" });
+  expect(await scanCode(svg)).toBe(payload);
+  expect(
+    makeEpc({
+      name: "Example",
+      iban: "DE89370400440532013000",
+      reference: "RF18 5390 0754 7034",
+    })
+  ).toBe(
+    "BCD\n002\n1\nSCT\n\nExample\nDE89370400440532013000\n\n\nRF18539007547034"
+  );
+  expect(() => makeEpc({ ...transfer, iban: "BE73000000001616" })).toThrow(
+    "Invalid IBAN check digits"
+  );
+  expect(() => makeEpc({ ...transfer, amount: 0.001 })).toThrow("Amounts");
+  expect(() => makeEpc({ ...transfer, reference: "RF18539007547034" })).toThrow(
+    "either a reference or a text"
+  );
+  expect(() => makeEpc({ ...transfer, text: "x".repeat(141) })).toThrow(
+    "at most 140 characters"
+  );
+  // A line break would shift the fields after it
+  expect(() => makeEpc({ ...transfer, name: "Red Cross\nEvil" })).toThrow(
+    "The name must not have line breaks"
+  );
+  expect(() => makeEpc({ ...transfer, text: "Urgency\r\nfund" })).toThrow(
+    "line breaks"
+  );
+  expect(() => makeEpc({ ...transfer, information: "Thanks\n" })).toThrow(
+    "line breaks"
+  );
+});
+
+test("should make swiss qr-bill codes", () => {
+  const creditor = {
+    name: "Robert Schneider AG",
+    street: "Rue du Lac",
+    buildingNumber: "1268",
+    postalCode: "2501",
+    town: "Biel",
+    country: "CH",
+  };
+  const bill = {
+    iban: "CH44 3199 9123 0008 8901 2",
+    creditor,
+    amount: 1949.75,
+    reference: "21 00000 00003 13947 14300 09017",
+    message: "Order of 15 June 2020",
+  };
+  const payload = makeSwissQrBill(bill);
+  expect(payload.split("\n")).toEqual([
+    "SPC",
+    "0200",
+    "1",
+    "CH4431999123000889012",
+    "S",
+    "Robert Schneider AG",
+    "Rue du Lac",
+    "1268",
+    "2501",
+    "Biel",
+    "CH",
+    ...new Array(7).fill(""),
+    "1949.75",
+    "CHF",
+    ...new Array(7).fill(""),
+    "QRR",
+    "210000000003139471430009017",
+    "Order of 15 June 2020",
+    "EPD",
+  ]);
+  const svg = makeSwissQrBillSvg(bill);
+  expect(svg).toContain(`width="46mm" height="46mm"`);
+  expect(decodeQr(svg)).toMatchObject({ text: payload, ecc: "medium" });
+  // The Swiss cross covers 7 mm in the middle, which error correction makes up for
+  const { modules } = makeMatrix(new TextEncoder().encode(payload), {
+    ecc: "medium",
+    boostEcl: false,
+  });
+  const size = modules.length;
+  const half = (size * 7) / 46 / 2;
+  modules.forEach((row, y) =>
+    row.forEach((_, x) => {
+      if (
+        Math.abs(x + 0.5 - size / 2) < half &&
+        Math.abs(y + 0.5 - size / 2) < half
+      )
+        row[x] = false;
+    })
+  );
+  expect(decodeQr(modules).text).toBe(payload);
+
+  // Creditor references go with ordinary IBANs
+  expect(
+    makeSwissQrBill({
+      iban: "CH93 0076 2011 6238 5295 7",
+      creditor,
+      currency: "EUR",
+      reference: "RF18 5390 0754 7034",
+    })
+  ).toContain("\nEUR\n" + "\n".repeat(7) + "SCOR\nRF18539007547034\n\nEPD");
+  expect(() =>
+    makeSwissQrBill({ ...bill, iban: "CH9300762011623852957" })
+  ).toThrow("QR references need a QR-IBAN");
+  expect(() => makeSwissQrBill({ ...bill, reference: undefined })).toThrow(
+    "QR-IBANs need a QR reference"
+  );
+  expect(() =>
+    makeSwissQrBill({ ...bill, reference: "210000000003139471430009018" })
+  ).toThrow("Invalid QR reference check digit");
+  expect(() =>
+    makeSwissQrBill({ ...bill, iban: "DE89370400440532013000" })
+  ).toThrow("Swiss or Liechtenstein IBAN");
+  expect(() =>
+    makeSwissQrBill({ ...bill, message: "Bestellung 東京" })
+  ).toThrow("Latin characters");
+  expect(() =>
+    makeSwissQrBill({ ...bill, message: "Order\nof 15 June" })
+  ).toThrow("The message must not have line breaks");
+  expect(() =>
+    makeSwissQrBill({
+      ...bill,
+      creditor: { ...creditor, town: "Biel\nBienne" },
+    })
+  ).toThrow("line breaks");
+  expect(() =>
+    makeSwissQrBill({ ...bill, billInformation: "//S1/10/\r10201409" })
+  ).toThrow("line breaks");
+});
+
+test("should build gs1 element strings", () => {
+  const gs1 = makeGs1("(01)09501101530003(17)261231(10)AB-123(21)12345");
+  // Only the batch number, which is of variable length and not last, ends in a separator
+  expect(gs1).toBe("010950110153000317261231" + "10AB-123\x1d" + "2112345");
+  expect(
+    makeGs1([
+      ["00", "034567890123456786"],
+      ["3103", "001250"],
+      ["37", "12"],
+      ["400", "PO-77"],
+    ])
+  ).toBe("00034567890123456786" + "3103001250" + "3712\x1d" + "400PO-77");
+  expect(
+    makeGs1([
+      ["235", "ABC"],
+      ["10", "X"],
+    ])
+  ).toBe("235ABC\x1d" + "10X");
+  expect(() => makeGs1("(01)09501101530004")).toThrow(
+    "Invalid value for AI (01): wrong check digit in 09501101530004"
+  );
+  expect(() => makeGs1("(17)261331")).toThrow("261331 is no date");
+  expect(() => makeGs1("(10)" + "x".repeat(21))).toThrow("is too long");
+  expect(() => makeGs1("(10)café")).toThrow("GS1 character set");
+  expect(() => makeGs1("(19)123")).toThrow(
+    "Unknown application identifier: 19"
+  );
+  expect(() => makeGs1("01095011015300")).toThrow("Invalid GS1 element string");
+});
+
+test("should encode in fnc1 mode", () => {
+  const gs1 = makeGs1("(01)09501101530003(10)AB%12(21)XYZ");
+  // The separator takes a percent sign in alphanumeric mode, and a percent sign two
+  const segs = makeSegments(gs1, Ecc._MEDIUM, makePrefix({ fnc1: "first" }));
+  expect(segs[0]._mode).toBe(Mode._FNC1_FIRST);
+  expect(segs.every((seg) => seg._mode !== Mode._BYTE)).toBe(true);
+  expect(segs.some((seg) => seg._mode === Mode._ALPHANUMERIC)).toBe(true);
+  const svg = makeSvg(gs1, { fnc1: "first", verify: true });
+  expect(decodeQr(svg)).toMatchObject({ text: gs1, fnc1: "first" });
+
+  const { modules } = makeMatrix("ABC%1", {
+    fnc1: "second",
+    applicationIndicator: "a",
+  });
+  expect(decodeQr(modules)).toMatchObject({
+    text: "ABC%1",
+    fnc1: "second",
+    applicationIndicator: "a",
+  });
+  expect(() => makeSvg("ABC", { fnc1: "second" })).toThrow(
+    "needs an application indicator"
+  );
+  expect(() =>
+    makeSvg("ABC", { fnc1: "second", applicationIndicator: "123" })
+  ).toThrow("Application indicator out of range");
+});
@@ -1,4 +1,81 @@
-import { Ecc, QrCode } from "./qrcodegen";
+import {
+  encode,
+  encodeMicro,
+  encodeRmqr,
+  encodeSegments,
+  EncodeOptions,
+  MicroEncodeOptions,
+  QrData,
+  RmqrEncodeOptions,
+  toBytes,
+} from "./encode";
+import { DecodedQr, decodeModules } from "./decode";
+import { DxfOptions, renderDxf } from "./dxf";
+import { Logo, LogoArea, placeLogo, renderLogo } from "./logo";
+import { QrMatrix, toMatrix } from "./matrix";
+import { MicroQrCode } from "./microqr";
+import { outlinePath, round, traceOutlines } from "./outline";
+import { makePaints, Paint } from "./paint";
+import { makeEpc, makeSwissQrBill, SepaTransfer, SwissQrBill } from "./payment";
+import { PdfOptions, renderPdf } from "./pdf";
+import { PngOptions, renderPng } from "./png";
+import { ModuleType, QrCode } from "./qrcodegen";
+import { RmqrCode } from "./rmqr";
+import {
+  drawFinder,
+  drawModules,
+  FinderStyle,
+  getModuleStyle,
+  ModuleStyle,
+  ModuleStyleName,
+} from "./styles";
+import { renderAsciiStl, renderStl, StlOptions } from "./stl";
+import { splitStructuredAppend } from "./structuredappend";
+import { renderText, TextOptions } from "./text";
+
+export type {
+  EccLevel,
+  EncodeOptions,
+  MicroEncodeOptions,
+  QrData,
+  RmqrEncodeOptions,
+} from "./encode";
+export type { DecodedQr, StructuredAppendHeader } from "./decode";
+export type { DxfOptions } from "./dxf";
+export { makeGs1 } from "./gs1";
+export type { Logo } from "./logo";
+export type { MatrixModuleType, QrMatrix } from "./matrix";
+export { traceOutlines } from "./outline";
+export type { Outline, Point } from "./outline";
+export type { Gradient, Paint } from "./paint";
+export {
+  makeEvent,
+  makeGeo,
+  makeMailto,
+  makeMecard,
+  makeSms,
+  makeVcard,
+  makeWifi,
+} from "./payloads";
+export type {
+  Address,
+  CalendarEvent,
+  Contact,
+  Email,
+  Phone,
+  Wifi,
+} from "./payloads";
+export { makeEpc, makeSwissQrBill } from "./payment";
+export type { SepaTransfer, SwissAddress, SwissQrBill } from "./payment";
+export type { PageSize, PdfOptions } from "./pdf";
+export type { PngOptions } from "./png";
+export { roundedSquare } from "./styles";
+export type { StlOptions } from "./stl";
+export type { FinderStyle, ModuleStyle, ModuleStyleName } from "./styles";
+export type { TextOptions } from "./text";
+
+// Any of the symbols, rMQR symbols being wider than they are high
+type Code = QrCode | MicroQrCode | RmqrCode;
 
 function group<T>(arr: T[]) {
   const groups: T[][] = [];
@@ -19,23 +96,25 @@ function group<T>(arr: T[]) {
 }
 
 const DOT_SIZE = 2;
-function buildPath(qr: QrCode) {
+function buildPath(modules: boolean[][], margin: number) {
   const OFFSET = DOT_SIZE / 2;
+  const start = margin * DOT_SIZE;
   let path = "";
-  for (let y = 0; y < qr._size; y++) {
-    const line = group(qr._modules[y]);
+  for (let y = 0; y < modules.length; y++) {
+    const line = group(modules[y]);
     const len = line.length;
+    const lineY = (y + margin) * DOT_SIZE + OFFSET;
 
     for (let i = 0; i < len; i++) {
       const group = line[i];
 
       if (group[0] === false && i === 0) {
         // if the first element is false, then it's a gap and we can move directly to the next group
-        path += `M${group.length * DOT_SIZE} ${y * DOT_SIZE + OFFSET}`;
+        path += `M${start + group.length * DOT_SIZE} ${lineY}`;
         continue;
       } else if (group[0] === true && i === 0) {
         // Otherwise we have to move to the start of the line
-        path += `M0 ${y * DOT_SIZE + OFFSET}`;
+        path += `M${start} ${lineY}`;
       }
 
       // if the last element is false, then it's a gap and we can move directly to the next line
@@ -53,16 +132,505 @@ function buildPath(qr: QrCode) {
   return path;
 }
 
-export default function makeSvg(
-  text: string,
-  opts: { color?: string; size?: number } = {
-    color: "#000",
-    size: 256,
+// Whether the modules have the timing patterns of a QR Code along row and column 6
+function hasTimingPatterns(modules: boolean[][]): boolean {
+  for (let i = 8; i < modules.length - 8; i++)
+    if (modules[6][i] !== (i % 2 == 0) || modules[i][6] !== (i % 2 == 0))
+      return false;
+  return true;
+}
+
+// Reads the modules back from the paths of buildPath() in an SVG, which draw each run of
+// dark modules as a horizontal stroke through the middle of its row. The quiet zone is as
+// wide on all sides, so the viewBox leaves a few sizes of symbol to choose from when the
+// margin isn't given, of which the one with timing patterns in the right place is taken.
+function parseSvg(svg: string, margin?: number): boolean[][] {
+  const viewBox = /viewBox="0 0 ([\d.]+) [\d.]+"/.exec(svg);
+  if (!viewBox) throw new RangeError("The SVG has no viewBox");
+  const strokes: Array<[number, number, number]> = [];
+  const paths = new RegExp(
+    `<path stroke="[^"]*" stroke-width="${DOT_SIZE}" d="([^"]*)"`,
+    "g"
+  );
+  for (let match; (match = paths.exec(svg)); ) {
+    let x = 0;
+    let y = 0;
+    const commands = /([Mhm])([^Mhm]*)/g;
+    for (let command; (command = commands.exec(match[1])); ) {
+      const [dx, dy = 0] = command[2].split(" ").map(Number);
+      if (command[1] === "M") [x, y] = [dx, dy];
+      else if (command[1] === "m") [x, y] = [x + dx, y + dy];
+      else {
+        strokes.push([x, y, dx]);
+        x += dx;
+      }
+    }
+  }
+  if (!strokes.length)
+    throw new RangeError("Only SVGs with square modules can be decoded");
+  const width = Number(viewBox[1]) / DOT_SIZE;
+  const margins =
+    margin === undefined
+      ? Array.from({ length: Math.floor(width / 2) + 1 }, (_, i) => i)
+      : [margin];
+  for (const m of margins) {
+    // QR Codes are 4 × version + 17 modules wide
+    const size = width - m * 2;
+    if (size < 21 || size > 177 || (size - 17) % 4) continue;
+    const modules = new Array(size)
+      .fill(0)
+      .map(() => new Array(size).fill(false));
+    const fits = strokes.every(([x, y, length]) => {
+      const row = (y - DOT_SIZE / 2) / DOT_SIZE - m;
+      const start = x / DOT_SIZE - m;
+      if (row < 0 || row >= size || start < 0) return false;
+      if (start + length / DOT_SIZE > size) return false;
+      for (let i = 0; i < length / DOT_SIZE; i++)
+        modules[row][start + i] = true;
+      return true;
+    });
+    if (fits && (margin !== undefined || hasTimingPatterns(modules)))
+      return modules;
   }
+  throw new RangeError(
+    margin === undefined
+      ? "The SVG has no QR Code with a quiet zone on all sides"
+      : `The SVG has no QR Code with a margin of ${margin}`
+  );
+}
+
+// Reads a QR Code from its modules, dark being true and without the quiet zone, or from an
+// SVG of makeSvg() with square modules, with the width of its quiet zone if it is known
+export function decodeQr(
+  code: boolean[][] | string,
+  margin?: number
+): DecodedQr {
+  return decodeModules(
+    typeof code === "string" ? parseSvg(code, margin) : code
+  );
+}
+
+export interface SvgOptions extends EncodeOptions {
+  // Color of the modules, or of the data modules when the other parts have colors of their own
+  color?: Paint;
+  size?: number;
+  // Width of the quiet zone around the code in modules, defaults to 4
+  margin?: number;
+  // Fill behind the code including the quiet zone, "transparent" to leave it out
+  background?: string;
+  // Draw the modules in the background color on a field of the module color
+  invert?: boolean;
+  // Shape of the modules, defaults to "square" which gives the smallest output.
+  // "outline" fills the same squares as closed outlines of the dark regions
+  moduleStyle?: "square" | "outline" | ModuleStyleName | ModuleStyle;
+  // Shape of the finder patterns: "square", "rounded", "circle" or "leaf",
+  // drawn like the other modules unless set or given colors
+  finderStyle?: FinderStyle;
+  // Color of the outer frame of the finder patterns, defaults to color
+  finderColor?: Paint;
+  // Color of the inner pupil of the finder patterns, defaults to finderColor
+  pupilColor?: Paint;
+  // Color of the alignment patterns, defaults to color
+  alignmentColor?: Paint;
+  // Color of the timing patterns, defaults to color
+  timingColor?: Paint;
+  // Prefix for the ids of gradients, to keep them unique when several SVGs are inlined in one page
+  id?: string;
+  // Image to put in the middle, which raises the error correction level to at least "quartile"
+  logo?: Logo;
+  // Decode the code as drawn, without the modules under the logo, and throw unless it reads back as the data
+  verify?: boolean;
+}
+
+// Logos cover modules, so codes with one need more error correction
+function withLogoEcc<T extends SvgOptions>(opts: T): T {
+  if (!opts.logo || opts.ecc === "high") return opts;
+  return { ...opts, ecc: "quartile" };
+}
+
+function renderModules(
+  modules: boolean[][],
+  margin: number,
+  moduleStyle: NonNullable<SvgOptions["moduleStyle"]>,
+  ink: string
+): string {
+  if (moduleStyle === "square") {
+    const path = buildPath(modules, margin);
+    return `<path stroke="${ink}" stroke-width="${DOT_SIZE}" d="${path}" />`;
+  }
+  if (moduleStyle === "outline") {
+    const path = outlinePath(traceOutlines(modules), margin, DOT_SIZE);
+    return `<path fill="${ink}" d="${path}" />`;
+  }
+  const style =
+    typeof moduleStyle === "function"
+      ? moduleStyle
+      : getModuleStyle(moduleStyle);
+  const path = drawModules(modules, margin, DOT_SIZE, style);
+  return `<path fill="${ink}" d="${path}" />`;
+}
+
+function renderFinders(
+  centers: Array<[number, number]>,
+  margin: number,
+  finderStyle: FinderStyle,
+  finderColor: string,
+  pupilColor: string
+): string {
+  let frames = "";
+  let pupils = "";
+  for (const [x, y] of centers) {
+    // Leaves point towards the center of the symbol, which is along the other
+    // diagonal for all but the top left finder pattern
+    const flipped = x != 3 || y != 3;
+    const { frame, pupil } = drawFinder(
+      finderStyle,
+      (x - 3 + margin) * DOT_SIZE,
+      (y - 3 + margin) * DOT_SIZE,
+      DOT_SIZE,
+      flipped
+    );
+    frames += frame;
+    pupils += pupil;
+  }
+  return `<path fill="${finderColor}" fill-rule="evenodd" d="${frames}" /><path fill="${pupilColor}" d="${pupils}" />`;
+}
+
+const XMLNS = `xmlns="http://www.w3.org/2000/svg"`;
+
+// Renders the code, with the overlay markup drawn on top and the unit appended to the size
+function renderSvg(
+  qr: Code,
+  opts: SvgOptions,
+  attrs = XMLNS,
+  overlay = "",
+  unit = ""
+): string {
+  const {
+    color = "#000",
+    size = 256,
+    margin = 4,
+    invert = false,
+    background = invert ? "#fff" : "transparent",
+    moduleStyle = "square",
+    finderStyle,
+    finderColor,
+    pupilColor,
+    alignmentColor,
+    timingColor,
+    id = "qr",
+    logo,
+  } = opts;
+  if (!(margin >= 0)) throw new RangeError("Margin must not be negative");
+  if (invert && background === "transparent")
+    throw new RangeError("Inverted codes need an opaque background");
+  const width = (qr._modules[0].length + margin * 2) * DOT_SIZE;
+  const height = (qr._modules.length + margin * 2) * DOT_SIZE;
+  // When inverted the module color fills the field, quiet zone included
+  const field = invert ? color : background;
+  const ink = invert ? background : color;
+  // The size sets the width, the height follows the aspect ratio
+  const sizeHeight = (size * height) / width;
+  const paints = makePaints(width, height, id);
+  // Styled finder patterns are drawn as shapes of their own, apart from the other modules
+  const styled = finderStyle || finderColor || pupilColor;
+  const centers = styled ? qr._getFinderCenters() : [];
+  const isFinder = (x: number, y: number) =>
+    centers.some(([cx, cy]) => Math.abs(x - cx) <= 3 && Math.abs(y - cy) <= 3);
+  // Modules under the logo and its padding are left out
+  let area: LogoArea | undefined;
+  let image = "";
+  if (logo) {
+    if (!(qr instanceof QrCode))
+      throw new RangeError("Logos are only supported on QR Codes");
+    area = placeLogo(qr, logo);
+    const offset = (area.offset + margin) * DOT_SIZE;
+    image = renderLogo(logo.src, offset, offset, area.size * DOT_SIZE);
+  }
+  // The other modules are drawn in one path per color
+  const regionColors: Partial<Record<ModuleType, Paint>> = {
+    finder: finderColor,
+    alignment: alignmentColor,
+    timing: timingColor,
+  };
+  const regions = new Map<Paint, boolean[][]>();
+  qr._modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (!dark || isFinder(x, y) || area?.isCovered(x, y)) return;
+      const paint = regionColors[qr._moduleTypes[y][x]] ?? ink;
+      let matrix = regions.get(paint);
+      if (!matrix) {
+        matrix = qr._modules.map((row) => row.map(() => false));
+        regions.set(paint, matrix);
+      }
+      matrix[y][x] = true;
+    })
+  );
+  let modules = "";
+  regions.forEach((matrix, paint) => {
+    modules += renderModules(matrix, margin, moduleStyle, paints.paint(paint));
+  });
+  const finders = styled
+    ? renderFinders(
+        centers,
+        margin,
+        finderStyle ?? "square",
+        paints.paint(finderColor ?? ink),
+        paints.paint(pupilColor ?? finderColor ?? ink)
+      )
+    : "";
+  const fill = field === "transparent" ? field : paints.paint(field);
+  const rect =
+    fill === "transparent"
+      ? ""
+      : `<rect width="${width}" height="${height}" fill="${fill}" />`;
+  return `<svg  ${attrs} viewBox="0 0 ${width} ${height}" width="${size}${unit}" height="${sizeHeight}${unit}">${paints.defs()}${rect}${modules}${finders}${image}${overlay}</svg>`;
+}
+
+// Decodes the symbols as drawn, without the modules under the logo, and throws unless
+// their payloads joined in order read back as the data
+function verifyCode(codes: QrCode[], data: QrData, logo?: Logo) {
+  const decoded = codes.map((qr) => {
+    const area = logo && placeLogo(qr, logo);
+    return decodeModules(
+      qr._modules.map((row, y) =>
+        row.map((dark, x) => dark && !area?.isCovered(x, y))
+      )
+    );
+  });
+  const text = decoded.map((symbol) => symbol.text).join("");
+  const bytes = decoded.flatMap((symbol) => Array.from(symbol.bytes));
+  const expected = typeof data === "string" ? data : toBytes(data);
+  const matches =
+    typeof expected === "string"
+      ? text === expected
+      : bytes.length === expected.length &&
+        bytes.every((b, i) => b === expected[i]);
+  if (!matches) throw new RangeError("The code does not read back as the data");
+}
+
+export default function makeSvg(data: QrData, opts: SvgOptions = {}): string {
+  const qr = encode(data, withLogoEcc(opts));
+  const svg = renderSvg(qr, opts);
+  if (opts.verify) verifyCode([qr], data, opts.logo);
+  return svg;
+}
+
+export interface StructuredAppendOptions extends SvgOptions {
+  // Number of symbols per row in the tiled SVG, defaults to all in one row
+  columns?: number;
+}
+
+export interface StructuredAppendSvg {
+  // One SVG per symbol, in sequence order
+  svgs: string[];
+  // All symbols tiled left to right, top to bottom in a single SVG
+  svg: string;
+  // The parity byte shared by all symbols, the XOR of the payload bytes
+  parity: number;
+}
+
+// Splits a payload too long for one code across up to 16 linked symbols
+export function makeStructuredAppendSvg(
+  data: QrData,
+  opts: StructuredAppendOptions = {}
+): StructuredAppendSvg {
+  opts = withLogoEcc(opts);
+  const { symbols, parity } = splitStructuredAppend(data, opts);
+  const { size = 256, columns = symbols.length } = opts;
+  if (!(columns >= 1)) throw new RangeError("Columns must be at least 1");
+  const codes = symbols.map((segs) => encodeSegments(segs, opts));
+  if (opts.verify) verifyCode(codes, data, opts.logo);
+  const tiles = codes.map((qr, i) =>
+    renderSvg(
+      qr,
+      opts,
+      `x="${(i % columns) * size}" y="${Math.floor(i / columns) * size}"`
+    )
+  );
+  const width = Math.min(columns, codes.length) * size;
+  const height = Math.ceil(codes.length / columns) * size;
+  return {
+    svgs: codes.map((qr) => renderSvg(qr, opts)),
+    svg: `<svg  ${XMLNS} viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">${tiles.join(
+      ""
+    )}</svg>`,
+    parity,
+  };
+}
+
+// Payment codes take their own error correction level and size limits
+export type PaymentSvgOptions = Omit<
+  SvgOptions,
+  | "ecc"
+  | "boostEcl"
+  | "eci"
+  | "fnc1"
+  | "applicationIndicator"
+  | "maxVersion"
+  | "logo"
+>;
+
+// Payment codes hold their UTF-8 payload in a single byte segment at level "medium"
+function encodePayment(
+  payload: string,
+  maxVersion: number,
+  opts: EncodeOptions = {}
+): QrCode {
+  return encode(new TextEncoder().encode(payload), {
+    ...opts,
+    ecc: "medium",
+    boostEcl: false,
+    maxVersion,
+  });
+}
+
+// Makes the EPC QR code of a SEPA credit transfer, which banking apps in the EEA read,
+// at most version 13
+export function makeEpcSvg(
+  transfer: SepaTransfer,
+  opts: PaymentSvgOptions = {}
 ): string {
-  const { color, size } = opts;
-  const qr = QrCode._encodeText(text, Ecc._MEDIUM);
-  const path = buildPath(qr);
-  const widthHeight = qr._size * DOT_SIZE;
-  return `<svg  xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${widthHeight} ${widthHeight}" width="${size}" height="${size}"><path stroke="${color}" stroke-width="${DOT_SIZE}" d="${path}" /></svg>`;
+  const payload = makeEpc(transfer);
+  const qr = encodePayment(payload, 13, opts);
+  const svg = renderSvg(qr, opts);
+  if (opts.verify) verifyCode([qr], payload);
+  return svg;
+}
+
+// The Swiss cross in the middle of a Swiss QR-bill code: 7 mm of white around a black
+// square with a white cross in the proportions of the flag, on a code width mm wide
+function swissCross(width: number, mm: number): string {
+  const box = (w: number, h: number, fill: string) =>
+    `<rect x="${round((width - w) / 2)}" y="${round(
+      (width - h) / 2
+    )}" width="${round(w)}" height="${round(h)}" fill="${fill}" />`;
+  const square = 6 * mm;
+  const [arm, bar] = [(square * 20) / 32, (square * 6) / 32];
+  return (
+    box(7 * mm, 7 * mm, "#fff") +
+    box(square, square, "#000") +
+    box(arm, bar, "#fff") +
+    box(bar, arm, "#fff")
+  );
+}
+
+// Makes the QR code of a Swiss QR-bill: black on white at level "medium", 46 mm wide
+// without the quiet zone of 5 mm that the payment part leaves around it, and at most
+// version 25, with the Swiss cross on top
+export function makeSwissQrBillSvg(bill: SwissQrBill): string {
+  const qr = encodePayment(makeSwissQrBill(bill), 25);
+  const width = qr._size * DOT_SIZE;
+  return renderSvg(
+    qr,
+    { size: 46, margin: 0, background: "#fff" },
+    XMLNS,
+    swissCross(width, width / 46),
+    "mm"
+  );
+}
+
+// The decoder only reads QR Codes, so Micro QR and rMQR codes can't be verified
+export type MicroSvgOptions = Omit<
+  SvgOptions,
+  "eci" | "fnc1" | "applicationIndicator" | "logo" | "verify"
+> &
+  MicroEncodeOptions;
+
+// Makes a Micro QR Code (M1 to M4), which has a quiet zone of 2 modules by default.
+// The "high" error correction level is not available.
+export function makeMicroSvg(data: QrData, opts: MicroSvgOptions = {}): string {
+  return renderSvg(encodeMicro(data, opts), {
+    ...opts,
+    margin: opts.margin ?? 2,
+  });
+}
+
+export type RmqrSvgOptions = Omit<
+  SvgOptions,
+  | "eci"
+  | "fnc1"
+  | "applicationIndicator"
+  | "logo"
+  | "verify"
+  | "minVersion"
+  | "maxVersion"
+  | "mask"
+> &
+  RmqrEncodeOptions;
+
+// Makes a rectangular Micro QR Code (rMQR, R7x43 to R17x139), which has a quiet zone of
+// 2 modules by default. Only the "medium" and "high" error correction levels are available.
+export function makeRmqrSvg(data: QrData, opts: RmqrSvgOptions = {}): string {
+  return renderSvg(encodeRmqr(data, opts), {
+    ...opts,
+    margin: opts.margin ?? 2,
+  });
+}
+
+// Makes a PNG image for places that can't show SVG, without any native dependencies
+export function makePng(
+  data: QrData,
+  opts: PngOptions & EncodeOptions = {}
+): Uint8Array {
+  return renderPng(encode(data, opts)._modules, opts);
+}
+
+// Makes a single page PDF with the modules as vector rectangles, sized in mm for print
+export function makePdf(
+  data: QrData,
+  opts: PdfOptions & EncodeOptions = {}
+): Uint8Array {
+  return renderPdf(encode(data, opts)._modules, opts);
+}
+
+// Writes the outlines of the dark regions as closed polylines in a DXF for laser cutters and CNC
+export function makeDxf(
+  data: QrData,
+  opts: DxfOptions & EncodeOptions = {}
+): string {
+  return renderDxf(encode(data, opts)._modules, opts);
+}
+
+// Makes a binary STL of a base plate with the dark modules raised, for 3D printing
+export function makeStl(
+  data: QrData,
+  opts: StlOptions & EncodeOptions = {}
+): Uint8Array {
+  return renderStl(encode(data, opts)._modules, opts);
+}
+
+// Makes the same mesh as makeStl() as an ASCII STL
+export function makeAsciiStl(
+  data: QrData,
+  opts: StlOptions & EncodeOptions = {}
+): string {
+  return renderAsciiStl(encode(data, opts)._modules, opts);
+}
+
+// Draws the code as text for terminals, with half blocks, ASCII or ANSI colors
+export function makeText(
+  data: QrData,
+  opts: TextOptions & EncodeOptions = {}
+): string {
+  return renderText(encode(data, opts)._modules, opts);
+}
+
+// Encodes the data without rendering it, for drawing the code some other way
+export function makeMatrix(data: QrData, opts: EncodeOptions = {}): QrMatrix {
+  return toMatrix(encode(data, opts));
+}
+
+export function makeMicroMatrix(
+  data: QrData,
+  opts: MicroEncodeOptions = {}
+): QrMatrix {
+  return toMatrix(encodeMicro(data, opts));
+}
+
+export function makeRmqrMatrix(
+  data: QrData,
+  opts: RmqrEncodeOptions = {}
+): QrMatrix {
+  return toMatrix(encodeRmqr(data, opts));
 }
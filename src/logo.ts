@@ -0,0 +1,80 @@
+import { QrCode } from "./qrcodegen";
+
+export interface Logo {
+  // An <svg> element, or the URL of an image (a data: URL keeps the SVG self-contained)
+  src: string;
+  // Width and height as a fraction of the code without its quiet zone, defaults to 0.2
+  size?: number;
+  // Width of the ring of modules cleared around the logo, defaults to 1.
+  // With 0 only the modules underneath the logo are cleared
+  padding?: number;
+}
+
+export interface LogoArea {
+  // Distance of the logo from the top and left edges of the code and its size, in modules
+  offset: number;
+  size: number;
+  // Whether the module at (x, y) is cleared
+  isCovered: (x: number, y: number) => boolean;
+}
+
+// Finds the modules a logo in the middle of the code covers, and checks that the
+// code still scans: no function patterns other than alignment patterns may be covered,
+// and the error correction must be able to recover all codewords that are.
+export function placeLogo(qr: QrCode, logo: Logo): LogoArea {
+  const { size: fraction = 0.2, padding = 1 } = logo;
+  if (!(fraction > 0 && fraction <= 1))
+    throw new RangeError("Logo size must be a fraction between 0 and 1");
+  if (!(padding >= 0))
+    throw new RangeError("Logo padding must not be negative");
+  const size = qr._size * fraction;
+  const offset = (qr._size - size) / 2;
+  const start = offset - padding;
+  const end = offset + size + padding;
+  const isCovered = (x: number, y: number) =>
+    x + 1 > start && x < end && y + 1 > start && y < end;
+  qr._moduleTypes.forEach((row, y) =>
+    row.forEach((type, x) => {
+      if (type !== "data" && type !== "alignment" && isCovered(x, y))
+        throw new RangeError(`Logo covers function modules (${type})`);
+    })
+  );
+  if (!qr._canRecover(isCovered))
+    throw new RangeError(
+      "Logo covers more modules than the error correction can recover"
+    );
+  return { offset, size, isCovered };
+}
+
+function escapeAttr(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;");
+}
+
+// Draws the logo into the given box, an <svg> element scaled to fit or an image
+export function renderLogo(
+  src: string,
+  x: number,
+  y: number,
+  size: number
+): string {
+  const [bx, by, bsize] = [x, y, size].map((n) => Math.round(n * 100) / 100);
+  const box = `x="${bx}" y="${by}" width="${bsize}" height="${bsize}"`;
+  if (!src.trimStart().startsWith("<"))
+    return `<image href="${escapeAttr(src)}" ${box} />`;
+  // Drop any XML declaration in front and replace the position and size of the root element
+  const root = src.match(/<svg\b[^>]*>/);
+  if (!root) throw new RangeError("Logo markup must be an <svg> element");
+  const attr = (name: string) =>
+    root[0].match(new RegExp(`\\s${name}=["']([^"']*)["']`))?.[1];
+  const width = attr("width");
+  const height = attr("height");
+  let tag = root[0].replace(/\s(?:x|y|width|height)=(?:"[^"]*"|'[^']*')/g, "");
+  // Keep the coordinate system of markup that only has a width and height
+  if (attr("viewBox") === undefined && Number(width) && Number(height))
+    tag = tag.replace(/^<svg/, `<svg viewBox="0 0 ${width} ${height}"`);
+  tag = tag.replace(/^<svg/, `<svg ${box}`);
+  return tag + src.slice((root.index as number) + root[0].length);
+}
@@ -0,0 +1,53 @@
+import { getEccLevel, EccLevel } from "./encode";
+import { MicroQrCode } from "./microqr";
+import { ModuleType, QrCode } from "./qrcodegen";
+import { RmqrCode } from "./rmqr";
+
+// The part of the symbol a module belongs to. Modules of codewords are "data" or
+// "ecc" for error correction, and the few remainder bits after them count as "data".
+export type MatrixModuleType = ModuleType | "ecc";
+
+export interface QrMatrix {
+  // "qr" for QR Codes, "micro" for Micro QR Codes and "rmqr" for rectangular Micro QR Codes
+  symbol: "qr" | "micro" | "rmqr";
+  // 1 to 40 for QR Codes, 1 to 4 for M1 to M4, and for rMQR the version
+  // in the format information, 0 for R7x43 to 31 for R17x139
+  version: number;
+  ecc: EccLevel;
+  // The mask pattern in the format information, rMQR has a single mask and none
+  mask: number | undefined;
+  // Size in modules, without the quiet zone
+  width: number;
+  height: number;
+  // Rows from top to bottom of the modules from left to right, true for dark
+  modules: boolean[][];
+  // The part of the symbol each module belongs to, indexed like the modules
+  types: MatrixModuleType[][];
+}
+
+export function toMatrix(qr: QrCode | MicroQrCode | RmqrCode): QrMatrix {
+  const numDataModules = qr._getNumDataModules();
+  const types = qr
+    ._getBitIndices()
+    .map((row, y) =>
+      row.map(
+        (i, x): MatrixModuleType =>
+          i >= numDataModules ? "ecc" : qr._moduleTypes[y][x]
+      )
+    );
+  return {
+    symbol:
+      qr instanceof QrCode
+        ? "qr"
+        : qr instanceof MicroQrCode
+        ? "micro"
+        : "rmqr",
+    version: qr._version,
+    ecc: getEccLevel(qr._errorCorrectionLevel),
+    mask: qr instanceof RmqrCode ? undefined : qr._mask,
+    width: qr._modules[0].length,
+    height: qr._modules.length,
+    modules: qr._modules.map((row) => row.slice()),
+    types,
+  };
+}
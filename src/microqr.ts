@@ -0,0 +1,487 @@
+import {
+  Ecc,
+  Mode,
+  ModuleType,
+  QrCode,
+  QrSegment,
+  _appendBits,
+  _assert,
+  _getBit,
+} from "./qrcodegen";
+import { QrSegmentAdvanced } from "./qrsegmentadvanced";
+
+type bit = number;
+type byte = number;
+type int = number;
+
+/*---- Micro QR Code symbol class ----*/
+
+/*
+ * A Micro QR Code symbol, the smaller sibling of QR Code described in the same ISO/IEC 18004
+ * standard. It has a single finder pattern, versions M1 to M4 (11 to 17 modules wide) and
+ * supports the low, medium and quartile error correction levels. Version M1 only offers error
+ * detection and is used when the low level is requested. There are no ECI, structured append
+ * or FNC1 modes, and the symbol needs a quiet zone of just 2 modules.
+ *
+ * Versions are numbered 1 to 4 for M1 to M4. Instances are immutable.
+ */
+export class MicroQrCode {
+  /*-- Static factory functions --*/
+
+  // Returns a Micro QR Code representing the given Unicode text string, split into the
+  // most compact segments that the chosen version allows. The smallest possible version
+  // within the given range is chosen, and if boostEcl is true the ECC level of the result
+  // may be higher than the ecl argument if it can be done without increasing the version.
+  public static _encodeText(
+    text: string,
+    ecl: Ecc,
+    minVersion: int = 1,
+    maxVersion: int = 4,
+    mask: int = -1,
+    boostEcl: boolean = true
+  ): MicroQrCode {
+    const codePoints: Array<int> = QrSegmentAdvanced._toCodePoints(text);
+    return MicroQrCode._encodeVersions(
+      (version) => {
+        // M1 only has numeric mode, M2 adds alphanumeric mode
+        const modeTypes: Array<Mode> = MicroQrCode._MODES.slice(
+          0,
+          version <= 2 ? version : 4
+        );
+        return QrSegmentAdvanced._makeSegmentsForModes(
+          codePoints,
+          modeTypes,
+          modeTypes.map((mode) => MicroQrCode._getHeaderBits(mode, version))
+        );
+      },
+      ecl,
+      minVersion,
+      maxVersion,
+      mask,
+      boostEcl
+    );
+  }
+
+  // Returns a Micro QR Code representing the given segments, which must only use
+  // the numeric, alphanumeric, byte and kanji modes. Other parameters as above.
+  public static _encodeSegments(
+    segs: Readonly<Array<QrSegment>>,
+    ecl: Ecc,
+    minVersion: int = 1,
+    maxVersion: int = 4,
+    mask: int = -1,
+    boostEcl: boolean = true
+  ): MicroQrCode {
+    return MicroQrCode._encodeVersions(
+      () => segs,
+      ecl,
+      minVersion,
+      maxVersion,
+      mask,
+      boostEcl
+    );
+  }
+
+  // Finds the smallest version whose segments (as made for that version) fit, then
+  // packs the data codewords and creates the symbol.
+  private static _encodeVersions(
+    makeSegs: (version: int) => Readonly<Array<QrSegment>>,
+    ecl: Ecc,
+    minVersion: int,
+    maxVersion: int,
+    mask: int,
+    boostEcl: boolean
+  ): MicroQrCode {
+    if (
+      !(1 <= minVersion && minVersion <= maxVersion && maxVersion <= 4) ||
+      mask < -1 ||
+      mask > 3
+    )
+      throw new RangeError("Invalid value");
+    if (ecl === Ecc._HIGH)
+      throw new RangeError("Micro QR Code has no high error correction level");
+
+    // Find the minimal version number to use
+    let version: int;
+    let segs: Readonly<Array<QrSegment>>;
+    let dataUsedBits: number;
+    for (version = minVersion; ; version++) {
+      const dataCapacityBits: int = MicroQrCode._getNumDataBits(version, ecl);
+      try {
+        segs = makeSegs(version);
+        dataUsedBits = MicroQrCode._getTotalBits(segs, version);
+      } catch (e) {
+        // Text with characters that none of this version's modes can encode
+        if (!(e instanceof RangeError)) throw e;
+        dataUsedBits = Infinity;
+      }
+      if (dataCapacityBits != -1 && dataUsedBits <= dataCapacityBits) break; // This version number is found to be suitable
+      if (version >= maxVersion)
+        // All versions in the range could not fit the given data
+        throw new RangeError("Data too long");
+    }
+
+    // Increase the error correction level while the data still fits in the current version number
+    for (const newEcl of [Ecc._MEDIUM, Ecc._QUARTILE]) {
+      const newBits: int = MicroQrCode._getNumDataBits(version, newEcl);
+      if (boostEcl && newBits != -1 && dataUsedBits! <= newBits) ecl = newEcl;
+    }
+
+    // Concatenate all segments to create the data bit string
+    let bb: Array<bit> = [];
+    for (const seg of segs!) {
+      _appendBits(MicroQrCode._MODES.indexOf(seg._mode), version - 1, bb);
+      _appendBits(
+        seg._numChars,
+        MicroQrCode._getCharCountBits(seg._mode, version),
+        bb
+      );
+      for (const b of seg._getData()) bb.push(b);
+    }
+    _assert(bb.length == dataUsedBits!);
+
+    // Add terminator and pad up to a codeword boundary. Versions M1 and M3
+    // end in a 4-bit codeword, which may receive the last bits of padding.
+    const dataCapacityBits: int = MicroQrCode._getNumDataBits(version, ecl);
+    _appendBits(0, Math.min(version * 2 + 1, dataCapacityBits - bb.length), bb);
+    while (bb.length % 8 != 0 && bb.length < dataCapacityBits) bb.push(0);
+
+    // Pad with alternating bytes until data capacity is reached
+    for (
+      let padByte = 0xec;
+      bb.length + 8 <= dataCapacityBits;
+      padByte ^= 0xec ^ 0x11
+    )
+      _appendBits(padByte, 8, bb);
+    while (bb.length < dataCapacityBits) bb.push(0);
+
+    // Pack bits into bytes in big endian, a final 4-bit codeword takes the high nibble
+    let dataCodewords: Array<byte> = [];
+    while (dataCodewords.length * 8 < bb.length) dataCodewords.push(0);
+    bb.forEach(
+      (b: bit, i: int) => (dataCodewords[i >>> 3] |= b << (7 - (i & 7)))
+    );
+
+    // Create the Micro QR Code object
+    return new MicroQrCode(version, ecl, dataCodewords, mask);
+  }
+
+  /*-- Fields --*/
+
+  // The width and height of this Micro QR Code, measured in modules, between
+  // 11 and 17 (inclusive). This is equal to version * 2 + 9.
+  public readonly _size: int;
+
+  // The index of the mask pattern used in this Micro QR Code, which is between 0 and 3 (inclusive).
+  public readonly _mask: int;
+
+  // The modules of this Micro QR Code (false = light, true = dark).
+  public readonly _modules: Array<Array<boolean>> = [];
+
+  // Indicates function modules that are not subjected to masking. Discarded when constructor finishes.
+  private readonly _isFunction: Array<Array<boolean>> = [];
+
+  // (Package-private) The part of the symbol each module belongs to, indexed like the modules.
+  public readonly _moduleTypes: Array<Array<ModuleType>> = [];
+
+  /*-- Constructor (low level) and fields --*/
+
+  // Creates a new Micro QR Code with the given version number, error correction level,
+  // data codeword bytes, and mask number (or -1 to choose the best mask automatically).
+  public constructor(
+    // The version number of this Micro QR Code, which is between 1 and 4 (inclusive).
+    public readonly _version: int,
+
+    // The error correction level used in this Micro QR Code.
+    public readonly _errorCorrectionLevel: Ecc,
+
+    dataCodewords: Readonly<Array<byte>>,
+
+    msk: int
+  ) {
+    if (_version < 1 || _version > 4)
+      throw new RangeError("Version value out of range");
+    if (msk < -1 || msk > 3) throw new RangeError("Mask value out of range");
+    if (MicroQrCode._getNumDataBits(_version, _errorCorrectionLevel) == -1)
+      throw new RangeError("Error correction level not available");
+    this._size = _version * 2 + 9;
+
+    // Initialize both grids to be size*size arrays of Boolean false
+    for (let i = 0; i < this._size; i++) {
+      this._modules.push(new Array<boolean>(this._size).fill(false));
+      this._isFunction.push(new Array<boolean>(this._size).fill(false));
+      this._moduleTypes.push(new Array<ModuleType>(this._size).fill("data"));
+    }
+
+    // Compute ECC, draw modules
+    this._drawFunctionPatterns();
+    this._drawCodewords(this._addEcc(dataCodewords));
+
+    // Do masking, the best mask has the most dark modules along the right and bottom edges
+    if (msk == -1) {
+      let maxScore: int = -1;
+      for (let i = 0; i < 4; i++) {
+        this._applyMask(i);
+        const score: int = this._getMaskScore();
+        if (score > maxScore) {
+          msk = i;
+          maxScore = score;
+        }
+        this._applyMask(i); // Undoes the mask due to XOR
+      }
+    }
+    this._mask = msk;
+    this._applyMask(msk);
+    this._drawFormatBits(msk);
+
+    this._isFunction = [];
+  }
+
+  /*-- Accessor methods --*/
+
+  // (Package-private) Returns the center of the single finder pattern, which covers
+  // the 7*7 modules around it, not counting the light separator.
+  public _getFinderCenters(): Array<[int, int]> {
+    return [[3, 3]];
+  }
+
+  /*-- Private helper methods for constructor --*/
+
+  // Draws the finder pattern with its separator and the two timing patterns.
+  private _drawFunctionPatterns(): void {
+    // Draw the finder pattern, the separator runs along its right and bottom edges
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist: int = Math.max(Math.abs(dx), Math.abs(dy)); // Chebyshev/infinity norm
+        const x: int = 3 + dx;
+        const y: int = 3 + dy;
+        if (0 <= x && 0 <= y)
+          this._setFunctionModule(
+            x,
+            y,
+            dist != 2 && dist != 4,
+            dist == 4 ? "separator" : "finder"
+          );
+      }
+    }
+
+    // Draw the timing patterns along the top and left edges
+    for (let i = 8; i < this._size; i++) {
+      this._setFunctionModule(i, 0, i % 2 == 0, "timing");
+      this._setFunctionModule(0, i, i % 2 == 0, "timing");
+    }
+
+    // Reserve the format information area
+    this._drawFormatBits(0);
+  }
+
+  // Draws the single copy of the format bits next to the finder pattern.
+  private _drawFormatBits(mask: int): void {
+    // Calculate error correction code and pack bits
+    const data: int =
+      (MicroQrCode._SYMBOL_NUMBERS[this._version][
+        this._errorCorrectionLevel._ordinal
+      ] <<
+        2) |
+      mask; // Symbol number is uint3, mask is uint2
+    let rem: int = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x4445; // uint15
+    _assert(bits >>> 15 == 0);
+
+    // Bits 0 to 7 run down column 8, bits 8 to 14 run right to left along row 8
+    for (let i = 0; i < 8; i++)
+      this._setFunctionModule(8, i + 1, _getBit(bits, i), "format");
+    for (let i = 8; i < 15; i++)
+      this._setFunctionModule(15 - i, 8, _getBit(bits, i), "format");
+  }
+
+  // Sets the color of a module and marks it as a function module of the given type.
+  private _setFunctionModule(
+    x: int,
+    y: int,
+    isDark: boolean,
+    type: ModuleType
+  ): void {
+    this._modules[y][x] = isDark;
+    this._isFunction[y][x] = true;
+    this._moduleTypes[y][x] = type;
+  }
+
+  // Returns the data codewords with the error correction codewords of the single block appended.
+  private _addEcc(data: Readonly<Array<byte>>): Array<byte> {
+    const numDataCodewords: int = Math.ceil(
+      MicroQrCode._getNumDataBits(this._version, this._errorCorrectionLevel) / 8
+    );
+    if (data.length != numDataCodewords)
+      throw new RangeError("Invalid argument");
+    const eccLen: int =
+      MicroQrCode._NUM_CODEWORDS[this._version] - numDataCodewords;
+    const rsDiv: Array<byte> = QrCode._reedSolomonComputeDivisor(eccLen);
+    return data.concat(QrCode._reedSolomonComputeRemainder(data, rsDiv));
+  }
+
+  // Draws the codewords in the same two-column zigzag as QR Code. In versions M1
+  // and M3 the last data codeword only contributes its 4 high bits.
+  private _drawCodewords(codewords: Readonly<Array<byte>>): void {
+    const dataBits: int = this._getNumDataModules();
+    let bits: Array<boolean> = [];
+    codewords.forEach((cw, i) => {
+      const len: int = i * 8 + 4 == dataBits ? 4 : 8;
+      for (let j = 7; j >= 8 - len; j--) bits.push(_getBit(cw, j));
+    });
+    this._getBitIndices().forEach((row, y) =>
+      row.forEach((i, x) => {
+        if (i != -1) this._modules[y][x] = bits[i];
+      })
+    );
+  }
+
+  // (Package-private) Returns the index of the bit in the sequence of data and error
+  // correction bits that each module holds, or -1 for function modules and remainder bits.
+  public _getBitIndices(): Array<Array<int>> {
+    const dataBits: int = this._getNumDataModules();
+    const numBits: int =
+      dataBits +
+      (MicroQrCode._NUM_CODEWORDS[this._version] - Math.ceil(dataBits / 8)) * 8;
+    const result: Array<Array<int>> = this._modules.map((row) =>
+      row.map((_) => -1)
+    );
+    let i: int = 0; // Bit index into the data
+    let upward: boolean = true;
+    for (let right = this._size - 1; right >= 1; right -= 2, upward = !upward) {
+      for (let vert = 0; vert < this._size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x: int = right - j;
+          const y: int = upward ? this._size - 1 - vert : vert;
+          if (this._moduleTypes[y][x] == "data" && i < numBits)
+            result[y][x] = i++;
+        }
+      }
+    }
+    _assert(i == numBits);
+    return result;
+  }
+
+  // (Package-private) Returns the number of modules holding data bits, which come
+  // before the error correction bits in the order of getBitIndices().
+  public _getNumDataModules(): int {
+    return MicroQrCode._getNumDataBits(
+      this._version,
+      this._errorCorrectionLevel
+    );
+  }
+
+  // XORs the data modules with the given mask pattern, which are QR Code masks 1, 4, 6 and 7.
+  private _applyMask(mask: int): void {
+    for (let y = 0; y < this._size; y++) {
+      for (let x = 0; x < this._size; x++) {
+        let invert: boolean;
+        switch (mask) {
+          case 0:
+            invert = y % 2 == 0;
+            break;
+          case 1:
+            invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 == 0;
+            break;
+          case 2:
+            invert = (((x * y) % 2) + ((x * y) % 3)) % 2 == 0;
+            break;
+          case 3:
+            invert = (((x + y) % 2) + ((x * y) % 3)) % 2 == 0;
+            break;
+          default:
+            throw new Error("Unreachable");
+        }
+        if (!this._isFunction[y][x] && invert)
+          this._modules[y][x] = !this._modules[y][x];
+      }
+    }
+  }
+
+  // Scores the current modules by the dark modules along the right and bottom edges, higher is better.
+  private _getMaskScore(): int {
+    const last: int = this._size - 1;
+    let sum1: int = 0;
+    let sum2: int = 0;
+    for (let i = 1; i <= last; i++) {
+      if (this._modules[i][last]) sum1++;
+      if (this._modules[last][i]) sum2++;
+    }
+    return sum1 <= sum2 ? sum1 * 16 + sum2 : sum2 * 16 + sum1;
+  }
+
+  /*-- Private helper functions --*/
+
+  // Returns the number of bits in the mode indicator and character count of a segment.
+  private static _getHeaderBits(mode: Mode, version: int): int {
+    return version - 1 + MicroQrCode._getCharCountBits(mode, version);
+  }
+
+  // Returns the width of the character count field, or 0 if the version doesn't support the mode.
+  private static _getCharCountBits(mode: Mode, version: int): int {
+    const i: int = MicroQrCode._MODES.indexOf(mode);
+    if (i == -1) throw new RangeError("Mode not supported by Micro QR Code");
+    return MicroQrCode._CHAR_COUNT_BITS[i][version - 1];
+  }
+
+  // Returns the number of bits needed to encode the given segments at the given
+  // version, or infinity if a mode is unsupported or a segment is too long.
+  private static _getTotalBits(
+    segs: Readonly<Array<QrSegment>>,
+    version: int
+  ): number {
+    let result: number = 0;
+    for (const seg of segs) {
+      const ccBits: int = MicroQrCode._getCharCountBits(seg._mode, version);
+      if (ccBits == 0 || seg._numChars >= 1 << ccBits) return Infinity;
+      result += version - 1 + ccBits + seg._getData().length;
+    }
+    return result;
+  }
+
+  // Returns the number of data bits at the given version and error correction level,
+  // or -1 if the combination doesn't exist.
+  private static _getNumDataBits(version: int, ecl: Ecc): int {
+    return MicroQrCode._DATA_BITS[version][ecl._ordinal] ?? -1;
+  }
+
+  /*-- Constants and tables --*/
+
+  // Modes in the order of their Micro QR Code mode indicator values.
+  private static readonly _MODES: Array<Mode> = [
+    Mode._NUMERIC,
+    Mode._ALPHANUMERIC,
+    Mode._BYTE,
+    Mode._KANJI,
+  ];
+
+  // Character count field widths of each mode for versions M1 to M4, 0 where the mode is unavailable.
+  private static readonly _CHAR_COUNT_BITS: Array<Array<int>> = [
+    [3, 4, 5, 6], // Numeric
+    [0, 3, 4, 5], // Alphanumeric
+    [0, 0, 4, 5], // Byte
+    [0, 0, 3, 4], // Kanji
+  ];
+
+  // Total number of codewords per version (index 0 is padding).
+  private static readonly _NUM_CODEWORDS: Array<int> = [-1, 5, 10, 17, 24];
+
+  // Data capacity in bits per version (index 0 is padding) and error correction level.
+  private static readonly _DATA_BITS: Array<Array<int>> = [
+    [],
+    [20], // M1, error detection only
+    [40, 32], // M2: Low, Medium
+    [84, 68], // M3: Low, Medium
+    [128, 112, 80], // M4: Low, Medium, Quartile
+  ];
+
+  // The symbol number encoded in the format information per version and error correction level.
+  private static readonly _SYMBOL_NUMBERS: Array<Array<int>> = [
+    [],
+    [0],
+    [1, 2],
+    [3, 4],
+    [5, 6, 7],
+  ];
+}
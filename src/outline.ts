@@ -0,0 +1,142 @@
+// Rounds a coordinate to a number of decimals, which keeps the output short
+export function round(n: number, decimals = 2): number {
+  const scale = 10 ** decimals;
+  return Math.round(n * scale) / scale;
+}
+
+// A corner between modules, x to the right and y down, in modules from the top left of the code
+export type Point = [number, number];
+
+export interface Outline {
+  // Corners of the outer boundary of a connected dark region, clockwise
+  outer: Point[];
+  // Corners of the light holes in the region, counterclockwise
+  holes: Point[][];
+}
+
+interface Edge {
+  from: Point;
+  // Direction of the edge, one module long
+  dx: number;
+  dy: number;
+  // The dark module on the right of the edge
+  module: Point;
+  used: boolean;
+}
+
+// Labels the regions of dark modules that share a side, -1 for light modules
+function labelRegions(modules: boolean[][]): number[][] {
+  const labels = modules.map((row) => row.map(() => -1));
+  let count = 0;
+  modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (!dark || labels[y][x] != -1) return;
+      const stack: Point[] = [[x, y]];
+      labels[y][x] = count;
+      while (stack.length) {
+        const [px, py] = stack.pop() as Point;
+        for (const [nx, ny] of [
+          [px + 1, py],
+          [px - 1, py],
+          [px, py + 1],
+          [px, py - 1],
+        ]) {
+          if (modules[ny]?.[nx] && labels[ny][nx] == -1) {
+            labels[ny][nx] = count;
+            stack.push([nx, ny]);
+          }
+        }
+      }
+      count++;
+    })
+  );
+  return labels;
+}
+
+// Traces the boundaries between dark and light modules into closed polygons, one
+// outline per region of dark modules that share a side. Regions touching only
+// at a corner stay apart, so that every polygon is simple.
+export function traceOutlines(modules: boolean[][]): Outline[] {
+  const isDark = (x: number, y: number) => modules[y]?.[x] === true;
+  const width = modules[0].length;
+  const key = ([x, y]: Point) => y * (width + 1) + x;
+
+  // Every side between a dark and a light module is an edge with the dark module on
+  // its right, which runs clockwise around dark regions and counterclockwise in holes
+  const edges: Edge[] = [];
+  const edgesFrom = new Map<number, Edge[]>();
+  const addEdge = (from: Point, dx: number, dy: number, module: Point) => {
+    const edge = { from, dx, dy, module, used: false };
+    edges.push(edge);
+    const list = edgesFrom.get(key(from));
+    if (list) list.push(edge);
+    else edgesFrom.set(key(from), [edge]);
+  };
+  modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (!dark) return;
+      if (!isDark(x, y - 1)) addEdge([x, y], 1, 0, [x, y]);
+      if (!isDark(x + 1, y)) addEdge([x + 1, y], 0, 1, [x, y]);
+      if (!isDark(x, y + 1)) addEdge([x + 1, y + 1], -1, 0, [x, y]);
+      if (!isDark(x - 1, y)) addEdge([x, y + 1], 0, -1, [x, y]);
+    })
+  );
+
+  const labels = labelRegions(modules);
+  const outlines: Outline[] = [];
+  for (const first of edges) {
+    if (first.used) continue;
+    // Follow the edges, keeping only the corners where the direction changes
+    const corners: Point[] = [];
+    let edge = first;
+    do {
+      edge.used = true;
+      const [x, y] = edge.from;
+      const next = [x + edge.dx, y + edge.dy] as Point;
+      const candidates = edgesFrom.get(key(next)) as Edge[];
+      // Where two regions meet at a corner, turn right to stay in this region
+      const following =
+        candidates.find((e) => e.dx == -edge.dy && e.dy == edge.dx) ??
+        candidates[0];
+      if (following.dx != edge.dx || following.dy != edge.dy)
+        corners.push(next);
+      edge = following;
+    } while (edge !== first);
+
+    // The shoelace formula gives clockwise outer boundaries a positive area
+    let area = 0;
+    corners.forEach(([x1, y1], i) => {
+      const [x2, y2] = corners[(i + 1) % corners.length];
+      area += x1 * y2 - x2 * y1;
+    });
+    const [mx, my] = first.module;
+    const region = labels[my][mx];
+    outlines[region] ??= { outer: [], holes: [] };
+    if (area > 0) outlines[region].outer = corners;
+    else outlines[region].holes.push(corners);
+  }
+  return outlines;
+}
+
+// Path data for the outlines, with the corners scaled by size and offset by the quiet zone
+export function outlinePath(
+  outlines: Outline[],
+  margin: number,
+  size: number
+): string {
+  let path = "";
+  for (const { outer, holes } of outlines) {
+    for (const polygon of [outer, ...holes]) {
+      polygon.forEach(([x, y], i) => {
+        if (i == 0) {
+          path += `M${(x + margin) * size} ${(y + margin) * size}`;
+          return;
+        }
+        const [px, py] = polygon[i - 1];
+        path += x != px ? `h${(x - px) * size}` : `v${(y - py) * size}`;
+      });
+      path += "z";
+    }
+  }
+  return path;
+}
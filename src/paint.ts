@@ -0,0 +1,81 @@
+import { round } from "./outline";
+
+export interface Gradient {
+  // "linear" (default) or "radial" from the center outwards
+  type?: "linear" | "radial";
+  // Colors spread evenly from the start to the end of the gradient, at least two
+  colors: string[];
+  // Direction of a linear gradient in degrees clockwise, defaults to 0 for left to right
+  angle?: number;
+}
+
+// A plain color, or a gradient spanning the whole SVG
+export type Paint = string | Gradient;
+
+// Turns "#rgb", "#rgba", "#rrggbb", "#rrggbbaa" or "transparent" into red, green, blue and alpha
+export function parseColor(color: string): number[] {
+  if (color === "transparent") return [0, 0, 0, 0];
+  const hex = color.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i)?.[1];
+  if (!hex) throw new RangeError(`Colors must be hex colors: ${color}`);
+  const digits = hex.length <= 4 ? hex.replace(/./g, "$&$&") : hex;
+  const rgba = digits.length === 6 ? digits + "ff" : digits;
+  return [0, 2, 4, 6].map((i) => parseInt(rgba.slice(i, i + 2), 16));
+}
+
+// Positions the gradient in the user space of the whole SVG, so that all modules share it
+function gradientAttrs(gradient: Gradient, width: number, height: number) {
+  const { type = "linear", angle = 0 } = gradient;
+  const cx = width / 2;
+  const cy = height / 2;
+  if (type === "radial")
+    return `cx="${cx}" cy="${cy}" r="${round(Math.hypot(width, height) / 2)}"`;
+  if (type !== "linear") throw new RangeError(`Unknown gradient type: ${type}`);
+  // Run from edge to edge through the center, so that the corners get the end colors
+  const cos = Math.cos((angle * Math.PI) / 180);
+  const sin = Math.sin((angle * Math.PI) / 180);
+  const half = (Math.abs(width * cos) + Math.abs(height * sin)) / 2;
+  const [x1, y1] = [round(cx - half * cos), round(cy - half * sin)];
+  const [x2, y2] = [round(cx + half * cos), round(cy + half * sin)];
+  return `x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}"`;
+}
+
+function renderGradient(
+  gradient: Gradient,
+  id: string,
+  width: number,
+  height: number
+): string {
+  const { colors } = gradient;
+  if (!(colors?.length >= 2))
+    throw new RangeError("Gradients need at least two colors");
+  const tag = gradient.type === "radial" ? "radialGradient" : "linearGradient";
+  const attrs = gradientAttrs(gradient, width, height);
+  let stops = "";
+  colors.forEach((color, i) => {
+    const offset = round(i / (colors.length - 1));
+    stops += `<stop offset="${offset}" stop-color="${color}" />`;
+  });
+  return `<${tag} id="${id}" gradientUnits="userSpaceOnUse" ${attrs}>${stops}</${tag}>`;
+}
+
+// Turns paints into fill and stroke values, collecting the gradients
+// for the <defs> of an SVG with the given viewBox size
+export function makePaints(width: number, height: number, idPrefix: string) {
+  const gradients: string[] = [];
+  const ids = new Map<Gradient, string>();
+  return {
+    paint(paint: Paint): string {
+      if (typeof paint === "string") return paint;
+      let id = ids.get(paint);
+      if (id === undefined) {
+        id = `${idPrefix}-gradient-${ids.size}`;
+        gradients.push(renderGradient(paint, id, width, height));
+        ids.set(paint, id);
+      }
+      return `url(#${id})`;
+    },
+    defs(): string {
+      return gradients.length ? `<defs>${gradients.join("")}</defs>` : "";
+    },
+  };
+}
@@ -0,0 +1,281 @@
+// Builders for the text of the payloads that phones act on when they scan a code
+
+export interface Wifi {
+  ssid: string;
+  password?: string;
+  // Defaults to "WPA", which covers WPA2 and WPA3, with a password and "nopass" without one
+  security?: "WPA" | "WEP" | "nopass";
+  // Whether the network hides its SSID
+  hidden?: boolean;
+}
+
+// Backslash escapes the characters that delimit WIFI: fields. Values that read as hex
+// numbers are quoted, so that readers take them as text.
+function escapeWifi(value: string): string {
+  const escaped = value.replace(/[\\;,":]/g, "\\$&");
+  return /^[\da-f]+$/i.test(value) ? `"${escaped}"` : escaped;
+}
+
+// Joins a Wi-Fi network, as WIFI:T:WPA;S:<ssid>;P:<password>;;
+export function makeWifi(wifi: Wifi): string {
+  const { ssid, password, hidden = false } = wifi;
+  const { security = password ? "WPA" : "nopass" } = wifi;
+  if (!ssid) throw new RangeError("The SSID must not be empty");
+  if (security !== "nopass" && !password)
+    throw new RangeError(`${security} networks need a password`);
+  let text = `WIFI:T:${security};S:${escapeWifi(ssid)};`;
+  if (security !== "nopass") text += `P:${escapeWifi(password as string)};`;
+  if (hidden) text += "H:true;";
+  return text + ";";
+}
+
+export interface Phone {
+  number: string;
+  // Such as "cell", "work", "home" or "fax"
+  type?: string;
+}
+
+export interface Address {
+  street?: string;
+  city?: string;
+  region?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+export interface Contact {
+  firstName?: string;
+  lastName?: string;
+  // The full name as displayed, defaults to the first and last name
+  formattedName?: string;
+  organization?: string;
+  title?: string;
+  phones?: Array<string | Phone>;
+  emails?: string[];
+  url?: string;
+  address?: Address;
+  // As "YYYY-MM-DD"
+  birthday?: string;
+  note?: string;
+}
+
+// Backslash escapes the characters that delimit vCard and iCalendar values, and line breaks
+function escapeText(value: string): string {
+  return value.replace(/[\\;,]/g, "\\$&").replace(/\r\n|\r|\n/g, "\\n");
+}
+
+// Folds a content line into lines of at most 75 bytes of UTF-8, each continuation
+// line starting with a space, without splitting characters
+function fold(line: string): string {
+  const encoder = new TextEncoder();
+  let result = "";
+  let length = 0;
+  for (const c of line) {
+    const size = encoder.encode(c).length;
+    if (length + size > 75) {
+      result += "\r\n ";
+      length = 1;
+    }
+    result += c;
+    length += size;
+  }
+  return result;
+}
+
+// Joins content lines as vCard and iCalendar want them, folded and each ending in CRLF
+function contentLines(lines: string[]): string {
+  return lines.map((line) => fold(line) + "\r\n").join("");
+}
+
+function getFormattedName(contact: Contact): string {
+  const { firstName, lastName, formattedName, organization } = contact;
+  const name =
+    formattedName ?? [firstName, lastName].filter((part) => part).join(" ");
+  // Cards of companies go by the name of the organization
+  return name || organization || "";
+}
+
+function checkBirthday(birthday: string): string {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(birthday))
+    throw new RangeError("Birthdays must be given as YYYY-MM-DD");
+  return birthday;
+}
+
+// Makes a vCard 3.0, which the most readers take, or 4.0
+export function makeVcard(contact: Contact, version: 3 | 4 = 3): string {
+  const { firstName = "", lastName = "", organization, title } = contact;
+  const { phones = [], emails = [], url, address, birthday, note } = contact;
+  if (version !== 3 && version !== 4)
+    throw new RangeError(`Unknown vCard version: ${version}`);
+  const formattedName = getFormattedName(contact);
+  if (!formattedName) throw new RangeError("The contact needs a name");
+  // Types are case insensitive, written in upper case in 3.0 and lower case in 4.0
+  const type = (t?: string) =>
+    t ? `;TYPE=${version === 3 ? t.toUpperCase() : t.toLowerCase()}` : "";
+
+  const lines = ["BEGIN:VCARD", `VERSION:${version}.0`];
+  // Family name, given name, additional names, prefixes and suffixes
+  lines.push(
+    `N:${[lastName, firstName, "", "", ""].map(escapeText).join(";")}`
+  );
+  lines.push(`FN:${escapeText(formattedName)}`);
+  if (organization) lines.push(`ORG:${escapeText(organization)}`);
+  if (title) lines.push(`TITLE:${escapeText(title)}`);
+  for (const phone of phones) {
+    const { number, type: t } =
+      typeof phone === "string" ? { number: phone, type: undefined } : phone;
+    lines.push(`TEL${type(t)}:${escapeText(number)}`);
+  }
+  for (const email of emails) lines.push(`EMAIL:${escapeText(email)}`);
+  if (url) lines.push(`URL:${url}`);
+  if (address) {
+    const { street, city, region, postalCode, country } = address;
+    // Post office box and extended address come before the street
+    const parts = ["", "", street, city, region, postalCode, country];
+    lines.push(`ADR:${parts.map((p = "") => escapeText(p)).join(";")}`);
+  }
+  if (birthday) {
+    checkBirthday(birthday);
+    lines.push(`BDAY:${version === 3 ? birthday : birthday.replace(/-/g, "")}`);
+  }
+  if (note) lines.push(`NOTE:${escapeText(note)}`);
+  lines.push("END:VCARD");
+  return contentLines(lines);
+}
+
+// Backslash escapes the characters that delimit MECARD: fields
+function escapeMecard(value: string): string {
+  return value.replace(/[\\;:,]/g, "\\$&");
+}
+
+// Makes the shorter MECARD: format, which has no titles and a single line address
+export function makeMecard(contact: Contact): string {
+  const { firstName, lastName, organization } = contact;
+  const { phones = [], emails = [], url, address, birthday, note } = contact;
+  const fields: string[] = [];
+  if (firstName || lastName)
+    fields.push(
+      `N:${[lastName, firstName]
+        .filter((part) => part)
+        .map((part) => escapeMecard(part as string))
+        .join(",")}`
+    );
+  else {
+    const name = getFormattedName(contact);
+    if (!name) throw new RangeError("The contact needs a name");
+    fields.push(`N:${escapeMecard(name)}`);
+  }
+  if (organization) fields.push(`ORG:${escapeMecard(organization)}`);
+  for (const phone of phones)
+    fields.push(
+      `TEL:${escapeMecard(typeof phone === "string" ? phone : phone.number)}`
+    );
+  for (const email of emails) fields.push(`EMAIL:${escapeMecard(email)}`);
+  if (url) fields.push(`URL:${escapeMecard(url)}`);
+  if (address) {
+    const { street, city, region, postalCode, country } = address;
+    // Post office box, room number, street, city, region, postal code and country
+    const parts = ["", "", street, city, region, postalCode, country];
+    fields.push(`ADR:${parts.map((p = "") => escapeMecard(p)).join(",")}`);
+  }
+  if (birthday)
+    fields.push(`BDAY:${checkBirthday(birthday).replace(/-/g, "")}`);
+  if (note) fields.push(`NOTE:${escapeMecard(note)}`);
+  return `MECARD:${fields.map((field) => field + ";").join("")};`;
+}
+
+// A point on the map as a geo: URI, with the altitude in meters
+export function makeGeo(
+  latitude: number,
+  longitude: number,
+  altitude?: number
+): string {
+  if (!(Math.abs(latitude) <= 90))
+    throw new RangeError("Latitude must be between -90 and 90");
+  if (!(Math.abs(longitude) <= 180))
+    throw new RangeError("Longitude must be between -180 and 180");
+  if (altitude !== undefined && !Number.isFinite(altitude))
+    throw new RangeError("Altitude must be a number");
+  const coordinates = [latitude, longitude];
+  if (altitude !== undefined) coordinates.push(altitude);
+  return `geo:${coordinates.join(",")}`;
+}
+
+// A text message to send, as SMSTO:<number>:<message>
+export function makeSms(number: string, message = ""): string {
+  if (!/^\+?[\d\s().-]+$/.test(number))
+    throw new RangeError(`Invalid phone number: ${number}`);
+  return `SMSTO:${number.replace(/[\s().-]/g, "")}:${message}`;
+}
+
+export interface Email {
+  to: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
+  subject?: string;
+  body?: string;
+}
+
+// Percent encodes all but the @ of addresses, which reads better and is allowed
+function encodeAddresses(addresses: string | string[]): string {
+  return ([] as string[])
+    .concat(addresses)
+    .map((address) => encodeURIComponent(address).replace(/%40/g, "@"))
+    .join(",");
+}
+
+// An email to write, as a mailto: URI
+export function makeMailto(email: Email): string {
+  const { to, cc, bcc, subject, body } = email;
+  const fields: string[] = [];
+  if (cc !== undefined) fields.push(`cc=${encodeAddresses(cc)}`);
+  if (bcc !== undefined) fields.push(`bcc=${encodeAddresses(bcc)}`);
+  if (subject) fields.push(`subject=${encodeURIComponent(subject)}`);
+  // Line breaks in the body are CRLF
+  if (body)
+    fields.push(
+      `body=${encodeURIComponent(body.replace(/\r\n|\r|\n/g, "\r\n"))}`
+    );
+  const query = fields.length ? `?${fields.join("&")}` : "";
+  return `mailto:${encodeAddresses(to)}${query}`;
+}
+
+export interface CalendarEvent {
+  summary: string;
+  start: Date;
+  // The last day of all day events, which otherwise end when they start without one
+  end?: Date;
+  // Whether the event takes whole days, going by the dates in UTC
+  allDay?: boolean;
+  location?: string;
+  description?: string;
+}
+
+// Formats a date as 20261018T093000Z, or 20261018 for all day events
+function formatDate(date: Date, allDay: boolean): string {
+  if (isNaN(date.getTime())) throw new RangeError("Invalid date");
+  const digits = date.toISOString().replace(/[-:]|\.\d+/g, "");
+  return allDay ? digits.slice(0, 8) : digits;
+}
+
+// An event to add to the calendar, as an iCalendar VEVENT
+export function makeEvent(event: CalendarEvent): string {
+  const { summary, start, end, allDay = false, location, description } = event;
+  if (end && end.getTime() < start.getTime())
+    throw new RangeError("The event ends before it starts");
+  const lines = ["BEGIN:VEVENT", `SUMMARY:${escapeText(summary)}`];
+  if (allDay) {
+    lines.push(`DTSTART;VALUE=DATE:${formatDate(start, true)}`);
+    // The end date is the day after the last day of the event
+    const last = end ?? start;
+    const after = new Date(last.getTime() + 24 * 60 * 60 * 1000);
+    lines.push(`DTEND;VALUE=DATE:${formatDate(after, true)}`);
+  } else {
+    lines.push(`DTSTART:${formatDate(start, false)}`);
+    if (end) lines.push(`DTEND:${formatDate(end, false)}`);
+  }
+  if (location) lines.push(`LOCATION:${escapeText(location)}`);
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+  lines.push("END:VEVENT");
+  return contentLines(lines);
+}
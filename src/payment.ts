@@ -0,0 +1,243 @@
+// Payloads of payment codes: the EPC069-12 SEPA credit transfer and the Swiss QR-bill
+
+// Removes the spaces that IBANs and references are often printed with
+function compact(value: string): string {
+  return value.replace(/\s+/g, "").toUpperCase();
+}
+
+// The remainder of the number written in digits and letters, A being 10 to Z 35, divided by 97
+function mod97(value: string): number {
+  let rem = 0;
+  for (const c of value) {
+    const n = parseInt(c, 36);
+    rem = (n < 10 ? rem * 10 + n : rem * 100 + n) % 97;
+  }
+  return rem;
+}
+
+// Checks the IBAN check digits and returns it without spaces
+function checkIban(iban: string): string {
+  const value = compact(iban);
+  if (!/^[A-Z]{2}\d{2}[A-Z\d]{11,30}$/.test(value))
+    throw new RangeError(`Invalid IBAN: ${iban}`);
+  // The country code and check digits move to the end
+  if (mod97(value.slice(4) + value.slice(0, 4)) !== 1)
+    throw new RangeError(`Invalid IBAN check digits: ${iban}`);
+  return value;
+}
+
+// Checks an ISO 11649 creditor reference, RF with two check digits, and returns it without spaces
+function checkCreditorReference(reference: string): string {
+  const value = compact(reference);
+  if (
+    !/^RF\d{2}[A-Z\d]{1,21}$/.test(value) ||
+    mod97(value.slice(4) + value.slice(0, 4)) !== 1
+  )
+    throw new RangeError(`Invalid creditor reference: ${reference}`);
+  return value;
+}
+
+// Formats an amount with two decimals, checking that it has no fractions of cents
+function formatAmount(amount: number): string {
+  if (
+    !(amount >= 0.01 && amount <= 999999999.99) ||
+    Math.abs(Math.round(amount * 100) - amount * 100) > 1e-6
+  )
+    throw new RangeError(
+      `Amounts must be from 0.01 to 999999999.99 in cents: ${amount}`
+    );
+  return amount.toFixed(2);
+}
+
+// Checks a free text field, in which a line break would shift all the fields after it
+function checkField(field: string, value: string, max: number): string {
+  if (/[\r\n]/.test(value))
+    throw new RangeError(`${field} must not have line breaks`);
+  if (value.length > max)
+    throw new RangeError(`${field} must be at most ${max} characters`);
+  return value;
+}
+
+export interface SepaTransfer {
+  // Name of the beneficiary
+  name: string;
+  iban: string;
+  // Only needed for payments from outside the EEA
+  bic?: string;
+  // In euros
+  amount?: number;
+  // Four letter ISO 20022 purpose code such as "CHAR" for charity
+  purpose?: string;
+  // Structured ISO 11649 creditor reference, instead of the text
+  reference?: string;
+  // Remittance information to show the payer, instead of the reference
+  text?: string;
+  // Note from the beneficiary to the payer
+  information?: string;
+}
+
+// The most bytes an EPC payload may have, what a version 13 code holds at level "medium"
+const EPC_MAX_BYTES = 331;
+
+// Makes the EPC069-12 payload of a SEPA credit transfer, version 002 in UTF-8
+export function makeEpc(transfer: SepaTransfer): string {
+  const { name, amount, purpose, reference, text, information } = transfer;
+  const bic = transfer.bic && compact(transfer.bic);
+  if (!name) throw new RangeError("The beneficiary needs a name");
+  if (bic && !/^[A-Z]{6}[A-Z\d]{2}([A-Z\d]{3})?$/.test(bic))
+    throw new RangeError(`Invalid BIC: ${transfer.bic}`);
+  if (purpose !== undefined && !/^[A-Z]{4}$/.test(purpose))
+    throw new RangeError(`Invalid purpose code: ${purpose}`);
+  if (reference && text)
+    throw new RangeError("A transfer has either a reference or a text");
+  const lines = [
+    "BCD",
+    "002",
+    "1", // UTF-8
+    "SCT",
+    bic || "",
+    checkField("The name", name, 70),
+    checkIban(transfer.iban),
+    amount === undefined ? "" : `EUR${formatAmount(amount)}`,
+    purpose ?? "",
+    reference ? checkCreditorReference(reference) : "",
+    checkField("The text", text ?? "", 140),
+    checkField("The information", information ?? "", 70),
+  ];
+  // Empty fields at the end are left out
+  const payload = lines.join("\n").replace(/\n+$/, "");
+  if (new TextEncoder().encode(payload).length > EPC_MAX_BYTES)
+    throw new RangeError(`EPC payloads are at most ${EPC_MAX_BYTES} bytes`);
+  return payload;
+}
+
+export interface SwissAddress {
+  name: string;
+  street?: string;
+  buildingNumber?: string;
+  postalCode: string;
+  town: string;
+  // Two letter ISO 3166 country code
+  country: string;
+}
+
+export interface SwissQrBill {
+  // A Swiss or Liechtenstein IBAN, which must be a QR-IBAN for QR references
+  iban: string;
+  creditor: SwissAddress;
+  // Left out for the payer to fill in
+  amount?: number;
+  // Defaults to "CHF"
+  currency?: "CHF" | "EUR";
+  debtor?: SwissAddress;
+  // A 27 digit QR reference with a QR-IBAN, or an ISO 11649 creditor reference
+  reference?: string;
+  // Unstructured message to the payer
+  message?: string;
+  // Structured bill information, which shares 140 characters with the message
+  billInformation?: string;
+  // Parameters of up to two alternative payment schemes
+  alternativeSchemes?: string[];
+}
+
+// The Latin characters that the Swiss QR-bill allows in its fields
+const SWISS_CHARSET = /^[\x20-\x7e\xa0-ſȘ-ț€]*$/;
+
+// The most characters a Swiss QR-bill payload may have
+const SWISS_MAX_LENGTH = 997;
+
+// QR references end in a check digit computed with the recursive modulo 10 method
+function checkQrReference(reference: string): string {
+  const value = compact(reference);
+  if (!/^\d{27}$/.test(value))
+    throw new RangeError(`Invalid QR reference: ${reference}`);
+  const table = [0, 9, 4, 6, 8, 2, 7, 1, 3, 5];
+  let carry = 0;
+  for (const digit of value.slice(0, 26)) carry = table[(carry + +digit) % 10];
+  if ((10 - carry) % 10 !== +value[26])
+    throw new RangeError(`Invalid QR reference check digit: ${reference}`);
+  return value;
+}
+
+// The seven lines of a structured address, or seven empty lines
+function addressLines(address?: SwissAddress): string[] {
+  if (!address) return ["", "", "", "", "", "", ""];
+  const { name, street = "", buildingNumber = "", postalCode, town } = address;
+  if (!name || !postalCode || !town)
+    throw new RangeError("Addresses need a name, postal code and town");
+  if (!/^[A-Z]{2}$/.test(address.country))
+    throw new RangeError(`Invalid country code: ${address.country}`);
+  return [
+    "S",
+    checkField("Names", name, 70),
+    checkField("Streets", street, 70),
+    checkField("Building numbers", buildingNumber, 16),
+    checkField("Postal codes", postalCode, 16),
+    checkField("Towns", town, 35),
+    address.country,
+  ];
+}
+
+// Makes the payload of the QR code of a Swiss QR-bill, version 2.0 of the implementation guidelines
+export function makeSwissQrBill(bill: SwissQrBill): string {
+  const { amount, currency = "CHF", reference, message = "" } = bill;
+  const { billInformation, alternativeSchemes = [] } = bill;
+  const iban = checkIban(bill.iban);
+  if (!/^(CH|LI)\d{7}[A-Z\d]{12}$/.test(iban))
+    throw new RangeError("Swiss QR-bills need a Swiss or Liechtenstein IBAN");
+  if (currency !== "CHF" && currency !== "EUR")
+    throw new RangeError(`Unknown currency: ${currency}`);
+  checkField("The message", message, 140);
+  checkField("The bill information", billInformation ?? "", 140);
+  if (message.length + (billInformation?.length ?? 0) > 140)
+    throw new RangeError(
+      "The message and bill information must be at most 140 characters"
+    );
+  if (alternativeSchemes.length > 2)
+    throw new RangeError("There are at most two alternative schemes");
+  alternativeSchemes.forEach((scheme) =>
+    checkField("Alternative schemes", scheme, 100)
+  );
+
+  // QR-IBANs have an institution id from 30000 to 31999 and only take QR references
+  const isQrIban = /^3[01]/.test(iban.slice(4, 9));
+  let referenceType: string;
+  let referenceValue = "";
+  if (isQrIban) {
+    if (!reference) throw new RangeError("QR-IBANs need a QR reference");
+    referenceType = "QRR";
+    referenceValue = checkQrReference(reference);
+  } else if (reference) {
+    if (/^\d+$/.test(compact(reference)))
+      throw new RangeError("QR references need a QR-IBAN");
+    referenceType = "SCOR";
+    referenceValue = checkCreditorReference(reference);
+  } else referenceType = "NON";
+
+  const lines = [
+    "SPC",
+    "0200",
+    "1", // UTF-8
+    iban,
+    ...addressLines(bill.creditor),
+    // The ultimate creditor is reserved for future use
+    ...addressLines(),
+    amount === undefined ? "" : formatAmount(amount),
+    currency,
+    ...addressLines(bill.debtor),
+    referenceType,
+    referenceValue,
+    message,
+    "EPD",
+  ];
+  if (billInformation !== undefined || alternativeSchemes.length)
+    lines.push(billInformation ?? "", ...alternativeSchemes);
+  if (!lines.every((line) => SWISS_CHARSET.test(line)))
+    throw new RangeError("Swiss QR-bills only take Latin characters");
+  const payload = lines.join("\n");
+  if (payload.length > SWISS_MAX_LENGTH)
+    throw new RangeError(
+      `Swiss QR-bill payloads are at most ${SWISS_MAX_LENGTH} characters`
+    );
+  return payload;
+}
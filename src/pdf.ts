@@ -0,0 +1,150 @@
+import { zlib } from "./deflate";
+import { parseColor } from "./paint";
+
+// Page sizes in mm
+const PAGE_SIZES = {
+  a4: [210, 297],
+  a5: [148, 210],
+  a6: [105, 148],
+  letter: [215.9, 279.4],
+};
+
+export type PageSize = keyof typeof PAGE_SIZES;
+
+export interface PdfOptions {
+  // Width and height of a module in mm, defaults to 1
+  moduleSize?: number;
+  // Width of the quiet zone around the code in modules, defaults to 4
+  margin?: number;
+  // "a4", "a5", "a6", "letter" or the width and height in mm,
+  // defaults to the size of the code with its quiet zone
+  pageSize?: PageSize | [number, number];
+  // Distance in mm from the left and top edges of the page to the quiet zone,
+  // which centers the code on the page by default
+  x?: number;
+  y?: number;
+  // Color of the dark modules as a hex color, defaults to "#000"
+  color?: string;
+  // Fill of the quiet zone and light modules as a hex color, defaults to "transparent" to leave the paper
+  background?: string;
+}
+
+const POINTS_PER_MM = 72 / 25.4;
+
+function pt(mm: number) {
+  return Math.round(mm * POINTS_PER_MM * 1000) / 1000;
+}
+
+function getPageSize(pageSize: NonNullable<PdfOptions["pageSize"]>) {
+  if (Array.isArray(pageSize)) {
+    if (
+      pageSize.length !== 2 ||
+      !pageSize.every((mm) => Number.isFinite(mm) && mm > 0)
+    )
+      throw new RangeError(
+        "Page sizes must be a positive width and height in mm"
+      );
+    return pageSize;
+  }
+  if (!Object.prototype.hasOwnProperty.call(PAGE_SIZES, pageSize))
+    throw new RangeError(`Unknown page size: ${pageSize}`);
+  return PAGE_SIZES[pageSize];
+}
+
+// The fill color operator, gray for neutral colors so that black prints with black ink only
+function fillColor(color: string) {
+  const [r, g, b, a] = parseColor(color);
+  if (a !== 255) throw new RangeError("PDF colors must be opaque");
+  const [rr, gg, bb] = [r, g, b].map(
+    (c) => Math.round((c / 255) * 1000) / 1000
+  );
+  return r === g && g === b ? `${rr} g` : `${rr} ${gg} ${bb} rg`;
+}
+
+// Writes a single page PDF 1.4 with the dark modules as one filled path of rectangles,
+// a rectangle per run of dark modules in a row
+export function renderPdf(
+  modules: boolean[][],
+  opts: PdfOptions = {}
+): Uint8Array {
+  const {
+    moduleSize = 1,
+    margin = 4,
+    color = "#000",
+    background = "transparent",
+  } = opts;
+  if (!(moduleSize > 0)) throw new RangeError("Module size must be positive");
+  if (!(margin >= 0)) throw new RangeError("Margin must not be negative");
+  const codeWidth = (modules[0].length + margin * 2) * moduleSize;
+  const codeHeight = (modules.length + margin * 2) * moduleSize;
+  const [pageWidth, pageHeight] = getPageSize(
+    opts.pageSize ?? [codeWidth, codeHeight]
+  );
+  // Allow for rounding in page sizes given in mm
+  const fits = (start: number, size: number, end: number) =>
+    start >= 0 && start + size <= end + 1e-9;
+  if (!fits(0, codeWidth, pageWidth) || !fits(0, codeHeight, pageHeight))
+    throw new RangeError("The code does not fit on the page");
+  const { x = (pageWidth - codeWidth) / 2, y = (pageHeight - codeHeight) / 2 } =
+    opts;
+  if (!fits(x, codeWidth, pageWidth) || !fits(y, codeHeight, pageHeight))
+    throw new RangeError("The position puts the code off the page");
+
+  // PDF puts the origin at the bottom left, with y upwards
+  const top = pageHeight - y;
+  let content = "";
+  if (background !== "transparent") {
+    const box = [x, top - codeHeight, codeWidth, codeHeight].map(pt).join(" ");
+    content += `${fillColor(background)} ${box} re f\n`;
+  }
+  content += `${fillColor(color)}\n`;
+  const height = pt(moduleSize);
+  modules.forEach((row, my) => {
+    const bottom = pt(top - (margin + my + 1) * moduleSize);
+    for (let mx = 0; mx < row.length; mx++) {
+      if (!row[mx]) continue;
+      const start = mx;
+      while (row[mx + 1]) mx++;
+      const left = pt(x + (margin + start) * moduleSize);
+      const width = pt((mx + 1 - start) * moduleSize);
+      content += `${left} ${bottom} ${width} ${height} re\n`;
+    }
+  });
+  content += "f\n";
+  const stream = zlib(Uint8Array.from(content, (c) => c.charCodeAt(0)));
+
+  const bytes: number[] = [];
+  const write = (text: string) => {
+    for (let i = 0; i < text.length; i++) bytes.push(text.charCodeAt(i));
+  };
+  const offsets: number[] = [];
+  const addObject = (dict: string, data?: Uint8Array) => {
+    offsets.push(bytes.length);
+    write(`${offsets.length} 0 obj\n${dict}\n`);
+    if (data) {
+      write("stream\n");
+      for (const byte of data) bytes.push(byte);
+      write("\nendstream\n");
+    }
+    write("endobj\n");
+  };
+  // The comment with bytes above 127 marks the file as binary for transfer programs
+  write("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n");
+  addObject("<< /Type /Catalog /Pages 2 0 R >>");
+  addObject("<< /Type /Pages /Kids [3 0 R] /Count 1 >>");
+  const mediaBox = `[0 0 ${pt(pageWidth)} ${pt(pageHeight)}]`;
+  addObject(
+    `<< /Type /Page /Parent 2 0 R /MediaBox ${mediaBox} /Resources << >> /Contents 4 0 R >>`
+  );
+  addObject(`<< /Length ${stream.length} /Filter /FlateDecode >>`, stream);
+
+  const xref = bytes.length;
+  const size = offsets.length + 1;
+  // Cross-reference entries are exactly 20 bytes, ending in a space and a newline
+  write(`xref\n0 ${size}\n0000000000 65535 f \n`);
+  for (const offset of offsets)
+    write(`${String(offset).padStart(10, "0")} 00000 n \n`);
+  write(`trailer\n<< /Size ${size} /Root 1 0 R >>\n`);
+  write(`startxref\n${xref}\n%%EOF\n`);
+  return Uint8Array.from(bytes);
+}
@@ -0,0 +1,83 @@
+import { zlib } from "./deflate";
+import { parseColor } from "./paint";
+
+export interface PngOptions {
+  // Width and height of a module in pixels, a whole number, defaults to 8
+  scale?: number;
+  // Width of the quiet zone around the code in modules, defaults to 4
+  margin?: number;
+  // Color of the dark modules as a hex color, defaults to "#000"
+  color?: string;
+  // Color of the light modules and the quiet zone, a hex color or "transparent", defaults to "#fff"
+  background?: string;
+}
+
+let crcTable: number[] | undefined;
+
+function crc32(bytes: ArrayLike<number>): number {
+  if (!crcTable) {
+    crcTable = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable.push(c >>> 0);
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++)
+    crc = (crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)) >>> 0;
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function uint32(n: number): number[] {
+  return [n >>> 24, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+}
+
+// A chunk is its length, type and data followed by the CRC of the type and data
+function chunk(type: string, data: ArrayLike<number>): number[] {
+  const body = [...type].map((c) => c.charCodeAt(0)).concat(Array.from(data));
+  return [...uint32(data.length), ...body, ...uint32(crc32(body))];
+}
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Draws the modules as a PNG with a two color palette, one bit per pixel
+export function renderPng(
+  modules: boolean[][],
+  opts: PngOptions = {}
+): Uint8Array {
+  const { scale = 8, margin = 4, color = "#000", background = "#fff" } = opts;
+  if (!(Number.isInteger(scale) && scale >= 1))
+    throw new RangeError("Scale must be a whole number of pixels");
+  if (!(Number.isInteger(margin) && margin >= 0))
+    throw new RangeError("Margin must be a whole number of modules");
+  const light = parseColor(background);
+  const dark = parseColor(color);
+  const width = (modules[0].length + margin * 2) * scale;
+  const height = (modules.length + margin * 2) * scale;
+
+  // Each row starts with filter type 0 (none) and packs 8 pixels per byte
+  const rowLength = 1 + Math.ceil(width / 8);
+  const pixels = new Uint8Array(rowLength * height);
+  for (let y = 0; y < height; y++) {
+    const row = modules[Math.floor(y / scale) - margin];
+    if (!row) continue;
+    for (let x = 0; x < width; x++) {
+      if (row[Math.floor(x / scale) - margin])
+        pixels[y * rowLength + 1 + (x >>> 3)] |= 0x80 >>> (x & 7);
+    }
+  }
+
+  const header = [...uint32(width), ...uint32(height), 1, 3, 0, 0, 0];
+  const palette = [...light.slice(0, 3), ...dark.slice(0, 3)];
+  // Transparency only needs a chunk when a color has some
+  const alpha = [light[3], dark[3]];
+  return Uint8Array.from([
+    ...SIGNATURE,
+    ...chunk("IHDR", header),
+    ...chunk("PLTE", palette),
+    ...(alpha.every((a) => a === 255) ? [] : chunk("tRNS", alpha)),
+    ...chunk("IDAT", zlib(pixels)),
+    ...chunk("IEND", []),
+  ]);
+}
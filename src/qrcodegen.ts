@@ -27,6 +27,17 @@ type bit = number;
 type byte = number;
 type int = number;
 
+// (Package-private) The part of a symbol a module belongs to. Everything
+// other than data is a function module, which is not subjected to masking.
+export type ModuleType =
+  | "finder"
+  | "separator"
+  | "timing"
+  | "alignment"
+  | "format"
+  | "version"
+  | "data";
+
 const _RangeError = RangeError;
 const floor = Math.floor;
 const abs = Math.abs;
@@ -180,6 +191,10 @@ export class QrCode {
   // Indicates function modules that are not subjected to masking. Discarded when constructor finishes.
   private readonly _isFunction: Array<Array<boolean>> = [];
 
+  // (Package-private) The part of the symbol each module belongs to, indexed like the modules.
+  // Unlike the function module flags this is kept, to draw the parts in different colors.
+  public readonly _moduleTypes: Array<Array<ModuleType>> = [];
+
   /*-- Constructor (low level) and fields --*/
 
   // Creates a new QR Code with the given version number,
@@ -210,6 +225,7 @@ export class QrCode {
     for (let i = 0; i < this._size; i++) {
       this._modules.push(row.slice()); // Initially all light
       this._isFunction.push(row.slice());
+      this._moduleTypes.push(row.map((_): ModuleType => "data"));
     }
 
     // Compute ECC, draw modules
@@ -251,20 +267,29 @@ export class QrCode {
   //   );
   // }
 
+  // (Package-private) Returns the centers of the three finder patterns. Each one covers
+  // the 7*7 modules around its center, not counting the light separator.
+  public _getFinderCenters(): Array<[int, int]> {
+    return [
+      [3, 3],
+      [this._size - 4, 3],
+      [3, this._size - 4],
+    ];
+  }
+
   /*-- Private helper methods for constructor: Drawing function modules --*/
 
   // Reads this object's version field, and draws and marks all function modules.
   private _drawFunctionPatterns(): void {
     // Draw horizontal and vertical timing patterns
     for (let i = 0; i < this._size; i++) {
-      this._setFunctionModule(6, i, i % 2 == 0);
-      this._setFunctionModule(i, 6, i % 2 == 0);
+      this._setFunctionModule(6, i, i % 2 == 0, "timing");
+      this._setFunctionModule(i, 6, i % 2 == 0, "timing");
     }
 
     // Draw 3 finder patterns (all corners except bottom right; overwrites some timing modules)
-    this._drawFinderPattern(3, 3);
-    this._drawFinderPattern(this._size - 4, 3);
-    this._drawFinderPattern(3, this._size - 4);
+    for (const [x, y] of this._getFinderCenters())
+      this._drawFinderPattern(x, y);
 
     // Draw numerous alignment patterns
     const alignPatPos: Array<int> = this._getAlignmentPatternPositions();
@@ -300,19 +325,29 @@ export class QrCode {
 
     // Draw first copy
     for (let i = 0; i <= 5; i++)
-      this._setFunctionModule(8, i, _getBit(bits, i));
-    this._setFunctionModule(8, 7, _getBit(bits, 6));
-    this._setFunctionModule(8, 8, _getBit(bits, 7));
-    this._setFunctionModule(7, 8, _getBit(bits, 8));
+      this._setFunctionModule(8, i, _getBit(bits, i), "format");
+    this._setFunctionModule(8, 7, _getBit(bits, 6), "format");
+    this._setFunctionModule(8, 8, _getBit(bits, 7), "format");
+    this._setFunctionModule(7, 8, _getBit(bits, 8), "format");
     for (let i = 9; i < 15; i++)
-      this._setFunctionModule(14 - i, 8, _getBit(bits, i));
+      this._setFunctionModule(14 - i, 8, _getBit(bits, i), "format");
 
     // Draw second copy
     for (let i = 0; i < 8; i++)
-      this._setFunctionModule(this._size - 1 - i, 8, _getBit(bits, i));
+      this._setFunctionModule(
+        this._size - 1 - i,
+        8,
+        _getBit(bits, i),
+        "format"
+      );
     for (let i = 8; i < 15; i++)
-      this._setFunctionModule(8, this._size - 15 + i, _getBit(bits, i));
-    this._setFunctionModule(8, this._size - 8, true); // Always dark
+      this._setFunctionModule(
+        8,
+        this._size - 15 + i,
+        _getBit(bits, i),
+        "format"
+      );
+    this._setFunctionModule(8, this._size - 8, true, "format"); // Always dark
   }
 
   // Draws two copies of the version bits (with its own error correction code),
@@ -331,8 +366,8 @@ export class QrCode {
       const color: boolean = _getBit(bits, i);
       const a: int = this._size - 11 + (i % 3);
       const b: int = floor(i / 3);
-      this._setFunctionModule(a, b, color);
-      this._setFunctionModule(b, a, color);
+      this._setFunctionModule(a, b, color, "version");
+      this._setFunctionModule(b, a, color, "version");
     }
   }
 
@@ -345,7 +380,12 @@ export class QrCode {
         const xx: int = x + dx;
         const yy: int = y + dy;
         if (0 <= xx && xx < this._size && 0 <= yy && yy < this._size)
-          this._setFunctionModule(xx, yy, dist != 2 && dist != 4);
+          this._setFunctionModule(
+            xx,
+            yy,
+            dist != 2 && dist != 4,
+            dist == 4 ? "separator" : "finder"
+          );
       }
     }
   }
@@ -358,16 +398,23 @@ export class QrCode {
         this._setFunctionModule(
           x + dx,
           y + dy,
-          Math.max(abs(dx), abs(dy)) != 1
+          Math.max(abs(dx), abs(dy)) != 1,
+          "alignment"
         );
     }
   }
 
-  // Sets the color of a module and marks it as a function module.
+  // Sets the color of a module and marks it as a function module of the given type.
   // Only used by the constructor. Coordinates must be in bounds.
-  private _setFunctionModule(x: int, y: int, isDark: boolean): void {
+  private _setFunctionModule(
+    x: int,
+    y: int,
+    isDark: boolean,
+    type: ModuleType
+  ): void {
     this._modules[y][x] = isDark;
     this._isFunction[y][x] = true;
+    this._moduleTypes[y][x] = type;
   }
 
   /*-- Private helper methods for constructor: Codewords and masking --*/
@@ -420,6 +467,24 @@ export class QrCode {
   private _drawCodewords(data: Readonly<Array<byte>>): void {
     if (data.length != floor(QrCode._getNumRawDataModules(this._version) / 8))
       throw new _RangeError("Invalid argument");
+    this._getBitIndices().forEach((row, y) =>
+      row.forEach((i, x) => {
+        if (i != -1) this._modules[y][x] = _getBit(data[i >>> 3], 7 - (i & 7));
+        // If this QR Code has any remainder bits (0 to 7), they were assigned as
+        // 0/false/light by the constructor and are left unchanged by this method
+      })
+    );
+  }
+
+  // (Package-private) Returns the index of the bit in the sequence of codewords (data
+  // and error correction, interleaved) that each module holds, or -1 for function
+  // modules and remainder bits. Function modules need to be marked off before this is called.
+  public _getBitIndices(): Array<Array<int>> {
+    const numBits: int =
+      floor(QrCode._getNumRawDataModules(this._version) / 8) * 8;
+    const result: Array<Array<int>> = this._modules.map((row) =>
+      row.map((_) => -1)
+    );
     let i: int = 0; // Bit index into the data
     // Do the funny zigzag scan
     for (let right = this._size - 1; right >= 1; right -= 2) {
@@ -431,16 +496,67 @@ export class QrCode {
           const x: int = right - j; // Actual x coordinate
           const upward: boolean = ((right + 1) & 2) == 0;
           const y: int = upward ? this._size - 1 - vert : vert; // Actual y coordinate
-          if (!this._isFunction[y][x] && i < data.length * 8) {
-            this._modules[y][x] = _getBit(data[i >>> 3], 7 - (i & 7));
+          if (this._moduleTypes[y][x] == "data" && i < numBits) {
+            result[y][x] = i;
             i++;
           }
-          // If this QR Code has any remainder bits (0 to 7), they were assigned as
-          // 0/false/light by the constructor and are left unchanged by this method
         }
       }
     }
-    _assert(i == data.length * 8);
+    _assert(i == numBits);
+    return result;
+  }
+
+  // (Package-private) Returns the number of modules holding data codewords, which come
+  // before the error correction codewords in the order of getBitIndices().
+  public _getNumDataModules(): int {
+    return (
+      QrCode._getNumDataCodewords(this._version, this._errorCorrectionLevel) * 8
+    );
+  }
+
+  // (Package-private) Returns whether a reader can still recover the data when all modules
+  // for which isCovered returns true read wrong. Each block corrects up to half as many
+  // wrong codewords as it has error correction codewords.
+  public _canRecover(isCovered: (x: int, y: int) => boolean): boolean {
+    const [blockOf, blockEccLen]: [Array<int>, int] = QrCode._getBlocks(
+      this._version,
+      this._errorCorrectionLevel
+    );
+    const numBlocks: int = blockOf[blockOf.length - 1] + 1;
+
+    // Count the covered codewords in each block
+    const covered: Array<boolean> = blockOf.map((_) => false);
+    this._getBitIndices().forEach((row, y) =>
+      row.forEach((i, x) => {
+        if (i != -1 && isCovered(x, y)) covered[i >>> 3] = true;
+      })
+    );
+    let wrong: Array<int> = new Array<int>(numBlocks).fill(0);
+    covered.forEach((c, i) => {
+      if (c) wrong[blockOf[i]]++;
+    });
+    return wrong.every((n) => n <= floor(blockEccLen / 2));
+  }
+
+  // (Package-private) Returns the block of each codeword, following the interleaving of
+  // addEccAndInterleave(), and the number of error correction codewords per block.
+  public static _getBlocks(ver: int, ecl: Ecc): [Array<int>, int] {
+    const numBlocks: int =
+      QrCode._NUM_ERROR_CORRECTION_BLOCKS[ecl._ordinal][ver];
+    const blockEccLen: int = QrCode._ECC_CODEWORDS_PER_BLOCK[ecl._ordinal][ver];
+    const rawCodewords: int = floor(QrCode._getNumRawDataModules(ver) / 8);
+    const numShortBlocks: int = numBlocks - (rawCodewords % numBlocks);
+    const shortBlockLen: int = floor(rawCodewords / numBlocks);
+
+    let blockOf: Array<int> = [];
+    for (let i = 0; i <= shortBlockLen; i++) {
+      for (let j = 0; j < numBlocks; j++) {
+        if (i != shortBlockLen - blockEccLen || j >= numShortBlocks)
+          blockOf.push(j);
+      }
+    }
+    return [blockOf, blockEccLen];
   }
 
   // XORs the codeword modules in this QR Code with the given mask pattern.
@@ -601,10 +717,10 @@ export class QrCode {
     return result;
   }
 
-  // Returns the number of 8-bit data (i.e. not error correction) codewords contained in any
+  // (Package-private) Returns the number of 8-bit data (i.e. not error correction) codewords contained in any
   // QR Code of the given version number and error correction level, with remainder bits discarded.
   // This stateless pure function could be implemented as a (40*4)-cell lookup table.
-  private static _getNumDataCodewords(ver: int, ecl: Ecc): int {
+  public static _getNumDataCodewords(ver: int, ecl: Ecc): int {
     return (
       floor(QrCode._getNumRawDataModules(ver) / 8) -
       QrCode._ECC_CODEWORDS_PER_BLOCK[ecl._ordinal][ver] *
@@ -612,9 +728,9 @@ export class QrCode {
     );
   }
 
-  // Returns a Reed-Solomon ECC generator polynomial for the given degree. This could be
+  // (Package-private) Returns a Reed-Solomon ECC generator polynomial for the given degree. This could be
   // implemented as a lookup table over all possible parameter values, instead of as an algorithm.
-  private static _reedSolomonComputeDivisor(degree: int): Array<byte> {
+  public static _reedSolomonComputeDivisor(degree: int): Array<byte> {
     if (degree < 1 || degree > 255)
       throw new _RangeError("Degree out of range");
     // Polynomial coefficients are stored from highest to lowest power, excluding the leading term which is always 1.
@@ -638,8 +754,8 @@ export class QrCode {
     return result;
   }
 
-  // Returns the Reed-Solomon error correction codeword for the given data and divisor polynomials.
-  private static _reedSolomonComputeRemainder(
+  // (Package-private) Returns the Reed-Solomon error correction codeword for the given data and divisor polynomials.
+  public static _reedSolomonComputeRemainder(
     data: Readonly<Array<byte>>,
     divisor: Readonly<Array<byte>>
   ): Array<byte> {
@@ -716,9 +832,9 @@ export class QrCode {
   /*-- Constants and tables --*/
 
   // The minimum version number supported in the QR Code Model 2 standard.
-  private static readonly _MIN_VERSION: int = 1;
+  public static readonly _MIN_VERSION: int = 1;
   // The maximum version number supported in the QR Code Model 2 standard.
-  private static readonly _MAX_VERSION: int = 40;
+  public static readonly _MAX_VERSION: int = 40;
 
   // For use in getPenaltyScore(), when evaluating which mask is best.
   private static readonly _PENALTY_N1: int = 3;
@@ -778,7 +894,7 @@ export class QrCode {
 
 // Appends the given number of low-order bits of the given value
 // to the given buffer. Requires 0 <= len <= 31 and 0 <= val < 2^len.
-function _appendBits(val: int, len: int, bb: Array<bit>): void {
+export function _appendBits(val: int, len: int, bb: Array<bit>): void {
   if (len < 0 || len > 31 || val >>> len != 0)
     throw new _RangeError("Value out of range");
   for (
@@ -790,12 +906,12 @@ function _appendBits(val: int, len: int, bb: Array<bit>): void {
 }
 
 // Returns true iff the i'th bit of x is set to 1.
-function _getBit(x: int, i: int): boolean {
+export function _getBit(x: int, i: int): boolean {
   return ((x >>> i) & 1) != 0;
 }
 
 // Throws an exception if the given condition is false.
-function _assert(cond: boolean): void {
+export function _assert(cond: boolean): void {
   if (!cond) throw new Error("Assertion error");
 }
 
@@ -818,101 +934,143 @@ export class QrSegment {
   // Returns a segment representing the given binary data encoded in
   // byte mode. All input byte arrays are acceptable. Any text string
   // can be converted to UTF-8 bytes and encoded as a byte mode segment.
-  private static _makeBytes(data: Readonly<Array<byte>>): QrSegment {
+  public static _makeBytes(data: Readonly<Array<byte>>): QrSegment {
     let bb: Array<bit> = [];
     for (const b of data) _appendBits(b, 8, bb);
     return new QrSegment(Mode._BYTE, data.length, bb);
   }
 
   // Returns a segment representing the given string of decimal digits encoded in numeric mode.
-  // public static makeNumeric(digits: string): QrSegment {
-  //   if (!QrSegment.isNumeric(digits))
-  //     throw new _RangeError("String contains non-numeric characters");
-  //   let bb: Array<bit> = [];
-  //   for (let i = 0; i < digits.length; ) {
-  //     // Consume up to 3 digits per iteration
-  //     const n: int = Math.min(digits.length - i, 3);
-  //     appendBits(parseInt(digits.substring(i, i + n), 10), n * 3 + 1, bb);
-  //     i += n;
-  //   }
-  //   return new QrSegment(Mode.NUMERIC, digits.length, bb);
-  // }
+  public static _makeNumeric(digits: string): QrSegment {
+    if (!QrSegment._isNumeric(digits))
+      throw new _RangeError("String contains non-numeric characters");
+    let bb: Array<bit> = [];
+    for (let i = 0; i < digits.length; ) {
+      // Consume up to 3 digits per iteration
+      const n: int = Math.min(digits.length - i, 3);
+      _appendBits(parseInt(digits.substring(i, i + n), 10), n * 3 + 1, bb);
+      i += n;
+    }
+    return new QrSegment(Mode._NUMERIC, digits.length, bb);
+  }
 
   // Returns a segment representing the given text string encoded in alphanumeric mode.
   // The characters allowed are: 0 to 9, A to Z (uppercase only), space,
   // dollar, percent, asterisk, plus, hyphen, period, slash, colon.
-  // public static makeAlphanumeric(text: string): QrSegment {
-  //   if (!QrSegment.isAlphanumeric(text))
-  //     throw new _RangeError(
-  //       "String contains unencodable characters in alphanumeric mode"
-  //     );
-  //   let bb: Array<bit> = [];
-  //   let i: int;
-  //   for (i = 0; i + 2 <= text.length; i += 2) {
-  //     // Process groups of 2
-  //     let temp: int =
-  //       QrSegment.ALPHANUMERIC_CHARSET.indexOf(text.charAt(i)) * 45;
-  //     temp += QrSegment.ALPHANUMERIC_CHARSET.indexOf(text.charAt(i + 1));
-  //     appendBits(temp, 11, bb);
-  //   }
-  //   if (i < text.length)
-  //     // 1 character remaining
-  //     appendBits(QrSegment.ALPHANUMERIC_CHARSET.indexOf(text.charAt(i)), 6, bb);
-  //   return new QrSegment(Mode.ALPHANUMERIC, text.length, bb);
-  // }
+  public static _makeAlphanumeric(text: string): QrSegment {
+    if (!QrSegment._isAlphanumeric(text))
+      throw new _RangeError(
+        "String contains unencodable characters in alphanumeric mode"
+      );
+    let bb: Array<bit> = [];
+    let i: int;
+    for (i = 0; i + 2 <= text.length; i += 2) {
+      // Process groups of 2
+      let temp: int =
+        QrSegment._ALPHANUMERIC_CHARSET.indexOf(text.charAt(i)) * 45;
+      temp += QrSegment._ALPHANUMERIC_CHARSET.indexOf(text.charAt(i + 1));
+      _appendBits(temp, 11, bb);
+    }
+    if (i < text.length)
+      // 1 character remaining
+      _appendBits(
+        QrSegment._ALPHANUMERIC_CHARSET.indexOf(text.charAt(i)),
+        6,
+        bb
+      );
+    return new QrSegment(Mode._ALPHANUMERIC, text.length, bb);
+  }
 
   // Returns a new mutable list of zero or more segments to represent the given Unicode text string.
   // The result may use various segment modes and switch modes to optimize the length of the bit stream.
   public static _makeSegments(text: string): Array<QrSegment> {
     // Select the most efficient segment encoding automatically
     if (text == "") return [];
-    /*else if (QrSegment.isNumeric(text)) return [QrSegment.makeNumeric(text)];
-    else if (QrSegment.isAlphanumeric(text))
-      return [QrSegment.makeAlphanumeric(text)];
-    else*/ return [QrSegment._makeBytes(QrSegment._toUtf8ByteArray(text))];
+    else if (QrSegment._isNumeric(text)) return [QrSegment._makeNumeric(text)];
+    else if (QrSegment._isAlphanumeric(text))
+      return [QrSegment._makeAlphanumeric(text)];
+    else return [QrSegment._makeBytes(QrSegment._toUtf8ByteArray(text))];
   }
 
   // Returns a segment representing an Extended Channel Interpretation
   // (ECI) designator with the given assignment value.
-  // public static makeEci(assignVal: int): QrSegment {
-  //   let bb: Array<bit> = [];
-  //   if (assignVal < 0)
-  //     throw new _RangeError("ECI assignment value out of range");
-  //   else if (assignVal < 1 << 7) appendBits(assignVal, 8, bb);
-  //   else if (assignVal < 1 << 14) {
-  //     appendBits(0b10, 2, bb);
-  //     appendBits(assignVal, 14, bb);
-  //   } else if (assignVal < 1000000) {
-  //     appendBits(0b110, 3, bb);
-  //     appendBits(assignVal, 21, bb);
-  //   } else throw new _RangeError("ECI assignment value out of range");
-  //   return new QrSegment(Mode.ECI, 0, bb);
-  // }
+  public static _makeEci(assignVal: int): QrSegment {
+    let bb: Array<bit> = [];
+    if (assignVal < 0 || assignVal != floor(assignVal))
+      throw new _RangeError("ECI assignment value out of range");
+    else if (assignVal < 1 << 7) _appendBits(assignVal, 8, bb);
+    else if (assignVal < 1 << 14) {
+      _appendBits(0b10, 2, bb);
+      _appendBits(assignVal, 14, bb);
+    } else if (assignVal < 1000000) {
+      _appendBits(0b110, 3, bb);
+      _appendBits(assignVal, 21, bb);
+    } else throw new _RangeError("ECI assignment value out of range");
+    return new QrSegment(Mode._ECI, 0, bb);
+  }
+
+  // Returns a segment representing a Structured Append header, which links the symbol
+  // at the given zero-based index to the other symbols of the same message. The parity
+  // byte is the XOR of all data bytes in the whole message, the same for every symbol.
+  public static _makeStructuredAppend(
+    index: int,
+    total: int,
+    parity: byte
+  ): QrSegment {
+    if (total < 1 || total > 16 || index < 0 || index >= total)
+      throw new _RangeError("Structured append position out of range");
+    let bb: Array<bit> = [];
+    _appendBits(index, 4, bb);
+    _appendBits(total - 1, 4, bb);
+    _appendBits(parity, 8, bb);
+    return new QrSegment(Mode._STRUCTURED_APPEND, 0, bb);
+  }
+
+  // Returns a segment representing the FNC1 mode indicator in the first position, which
+  // marks the data as GS1 element strings. It has no data bits.
+  public static _makeFnc1First(): QrSegment {
+    return new QrSegment(Mode._FNC1_FIRST, 0, []);
+  }
+
+  // Returns a segment representing the FNC1 mode indicator in the second position, which marks
+  // the data as following an industry format given by the application indicator: two digits,
+  // or a single letter which is encoded as its ASCII value plus 100.
+  public static _makeFnc1Second(applicationIndicator: string): QrSegment {
+    let val: int;
+    if (/^\d\d$/.test(applicationIndicator))
+      val = parseInt(applicationIndicator, 10);
+    else if (/^[A-Za-z]$/.test(applicationIndicator))
+      val = applicationIndicator.charCodeAt(0) + 100;
+    else throw new _RangeError("Application indicator out of range");
+    let bb: Array<bit> = [];
+    _appendBits(val, 8, bb);
+    return new QrSegment(Mode._FNC1_SECOND, 0, bb);
+  }
 
   // Tests whether the given string can be encoded as a segment in numeric mode.
   // A string is encodable iff each character is in the range 0 to 9.
-  // private static isNumeric(text: string): boolean {
-  //   return QrSegment.NUMERIC_REGEX.test(text);
-  // }
+  public static _isNumeric(text: string): boolean {
+    return QrSegment._NUMERIC_REGEX.test(text);
+  }
 
   // Tests whether the given string can be encoded as a segment in alphanumeric mode.
   // A string is encodable iff each character is in the following set: 0 to 9, A to Z
   // (uppercase only), space, dollar, percent, asterisk, plus, hyphen, period, slash, colon.
-  // private static isAlphanumeric(text: string): boolean {
-  //   return QrSegment.ALPHANUMERIC_REGEX.test(text);
-  // }
+  public static _isAlphanumeric(text: string): boolean {
+    return QrSegment._ALPHANUMERIC_REGEX.test(text);
+  }
 
   /*-- Constructor (low level) and fields --*/
 
   // Creates a new QR Code segment with the given attributes and data.
   // The character count (numChars) must agree with the mode and the bit buffer length,
   // but the constraint isn't checked. The given bit buffer is cloned and stored.
-  private constructor(
+  public constructor(
     // The mode indicator of this segment.
     public readonly _mode: Mode,
 
     // The length of this segment's unencoded data. Measured in characters for
-    // numeric/alphanumeric/kanji mode, bytes for byte mode, and 0 for ECI mode.
+    // numeric/alphanumeric/kanji mode, bytes for byte mode, and 0 for ECI, structured append and FNC1 mode.
     // Always zero or positive. Not the same as the data's bit length.
     public readonly _numChars: int,
 
@@ -945,8 +1103,8 @@ export class QrSegment {
     return result;
   }
 
-  // Returns a new array of bytes representing the given string encoded in UTF-8.
-  private static _toUtf8ByteArray(str: string): Array<byte> {
+  // (Package-private) Returns a new array of bytes representing the given string encoded in UTF-8.
+  public static _toUtf8ByteArray(str: string): Array<byte> {
     str = encodeURI(str);
     let result: Array<byte> = [];
     for (let i = 0; i < str.length; i++) {
@@ -962,15 +1120,15 @@ export class QrSegment {
   /*-- Constants --*/
 
   // Describes precisely all strings that are encodable in numeric mode.
-  // private static readonly NUMERIC_REGEX: RegExp = /^[0-9]*$/;
+  private static readonly _NUMERIC_REGEX: RegExp = /^[0-9]*$/;
 
   // Describes precisely all strings that are encodable in alphanumeric mode.
-  // private static readonly ALPHANUMERIC_REGEX: RegExp = /^[A-Z0-9 $%*+.\/:-]*$/;
+  private static readonly _ALPHANUMERIC_REGEX: RegExp = /^[A-Z0-9 $%*+.\/:-]*$/;
 
-  // The set of all legal characters in alphanumeric mode,
+  // (Package-private) The set of all legal characters in alphanumeric mode,
   // where each character value maps to the index in the string.
-  // private static readonly ALPHANUMERIC_CHARSET: string =
-  //   "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:";
+  public static readonly _ALPHANUMERIC_CHARSET: string =
+    "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:";
 }
 
 /*---- Public helper enumeration ----*/
@@ -1004,11 +1162,14 @@ export class Ecc {
 export class Mode {
   /*-- Constants --*/
 
-  // public static readonly NUMERIC = new Mode(0x1, [10, 12, 14]);
-  // public static readonly ALPHANUMERIC = new Mode(0x2, [9, 11, 13]);
+  public static readonly _NUMERIC = new Mode(0x1, [10, 12, 14]);
+  public static readonly _ALPHANUMERIC = new Mode(0x2, [9, 11, 13]);
   public static readonly _BYTE = new Mode(0x4, [8, 16, 16]);
-  // public static readonly KANJI = new Mode(0x8, [8, 10, 12]);
-  // public static readonly ECI = new Mode(0x7, [0, 0, 0]);
+  public static readonly _KANJI = new Mode(0x8, [8, 10, 12]);
+  public static readonly _ECI = new Mode(0x7, [0, 0, 0]);
+  public static readonly _STRUCTURED_APPEND = new Mode(0x3, [0, 0, 0]);
+  public static readonly _FNC1_FIRST = new Mode(0x5, [0, 0, 0]);
+  public static readonly _FNC1_SECOND = new Mode(0x9, [0, 0, 0]);
 
   /*-- Constructor and fields --*/
 
@@ -0,0 +1,307 @@
+/*
+ * QR Code generator library - Optional advanced logic (TypeScript)
+ *
+ * Copyright (c) Project Nayuki. (MIT License)
+ * https://www.nayuki.io/page/qr-code-generator-library
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ * - The above copyright notice and this permission notice shall be included in
+ *   all copies or substantial portions of the Software.
+ * - The Software is provided "as is", without warranty of any kind, express or
+ *   implied, including but not limited to the warranties of merchantability,
+ *   fitness for a particular purpose and noninfringement. In no event shall the
+ *   authors or copyright holders be liable for any claim, damages or other
+ *   liability, whether in an action of contract, tort or otherwise, arising from,
+ *   out of or in connection with the Software or the use or other dealings in the
+ *   Software.
+ */
+
+"use strict";
+
+import { toKanjiValue } from "./kanji";
+import { Ecc, Mode, QrCode, QrSegment } from "./qrcodegen";
+
+type int = number;
+
+/*---- Advanced segment encoder ----*/
+
+/*
+ * Splits text into segments of the most compact modes. The character count
+ * field widths change at versions 10 and 27, so the split is computed once
+ * for each of the three version ranges that the search passes through.
+ */
+export class QrSegmentAdvanced {
+  /*-- Optimal list of segments encoder --*/
+
+  // Returns a list of zero or more segments to represent the given Unicode text string.
+  // The resulting list optimally minimizes the total encoded bit length, subjected to the constraints
+  // in the given {error correction level, minimum version number, maximum version number}.
+  // This function can utilize all four text encoding modes: numeric, alphanumeric, byte (UTF-8),
+  // and kanji. This can be considered as a sophisticated but slower replacement for makeSegments().
+  // The prefix segments (such as an ECI designator) are counted towards the capacity and
+  // are included at the start of the returned list. In FNC1 mode, alphanumeric segments
+  // encode the group separator (U+001D) as a percent sign and a percent sign as two.
+  // Kanji mode is left out after an ECI designator, since its Shift JIS would be read
+  // in the declared character set.
+  public static _makeSegmentsOptimally(
+    text: string,
+    ecl: Ecc,
+    minVersion: int = 1,
+    maxVersion: int = 40,
+    prefix: Readonly<Array<QrSegment>> = [],
+    fnc1: boolean = false,
+    eci: boolean = false
+  ): Array<QrSegment> {
+    // Check arguments
+    if (
+      !(
+        QrCode._MIN_VERSION <= minVersion &&
+        minVersion <= maxVersion &&
+        maxVersion <= QrCode._MAX_VERSION
+      )
+    )
+      throw new RangeError("Invalid value");
+
+    // Iterate through version numbers, and make tentative segments
+    let segs: Array<QrSegment> = [];
+    const codePoints: Array<int> = QrSegmentAdvanced._toCodePoints(text);
+    for (let version = minVersion; ; version++) {
+      if (version == minVersion || version == 10 || version == 27)
+        segs = prefix.concat(
+          QrSegmentAdvanced._makeSegmentsForVersion(
+            codePoints,
+            version,
+            fnc1,
+            eci
+          )
+        );
+
+      // Check if the segments fit
+      const dataCapacityBits: int =
+        QrCode._getNumDataCodewords(version, ecl) * 8;
+      const dataUsedBits: number = QrSegment._getTotalBits(segs, version);
+      if (dataUsedBits <= dataCapacityBits) return segs; // This version number is found to be suitable
+      if (version >= maxVersion)
+        // All versions in the range could not fit the given text
+        throw new RangeError("Data too long");
+    }
+  }
+
+  // Returns a new list of segments that is optimal for the given text at the given version number.
+  private static _makeSegmentsForVersion(
+    codePoints: Readonly<Array<int>>,
+    version: int,
+    fnc1: boolean,
+    eci: boolean
+  ): Array<QrSegment> {
+    const modeTypes: Array<Mode> = QrSegmentAdvanced._MODE_TYPES.filter(
+      (mode) => !eci || mode !== Mode._KANJI
+    );
+    return QrSegmentAdvanced._makeSegmentsForModes(
+      codePoints,
+      modeTypes,
+      modeTypes.map((mode) => 4 + mode._numCharCountBits(version)),
+      fnc1
+    );
+  }
+
+  // (Package-private) Returns a new list of segments that is optimal for the given text when
+  // restricted to the given modes, where a segment of modeTypes[i] has a header of headBits[i]
+  // bits. This serves symbologies whose mode indicators and character counts differ from QR Code.
+  public static _makeSegmentsForModes(
+    codePoints: Readonly<Array<int>>,
+    modeTypes: Readonly<Array<Mode>>,
+    headBits: Readonly<Array<int>>,
+    fnc1: boolean = false
+  ): Array<QrSegment> {
+    if (codePoints.length == 0) return [];
+    const charModes: Array<Mode> = QrSegmentAdvanced._computeCharacterModes(
+      codePoints,
+      modeTypes,
+      headBits,
+      fnc1
+    );
+    return QrSegmentAdvanced._splitIntoSegments(codePoints, charModes, fnc1);
+  }
+
+  // Returns a new array representing the optimal mode per code point based on the given text and modes.
+  // Throws if some code point cannot be encoded in any of the modes.
+  private static _computeCharacterModes(
+    codePoints: Readonly<Array<int>>,
+    modeTypes: Readonly<Array<Mode>>,
+    headBits: Readonly<Array<int>>,
+    fnc1: boolean
+  ): Array<Mode> {
+    const numModes: int = modeTypes.length;
+
+    // Segment header sizes, measured in 1/6 bits
+    const headCosts: Array<int> = headBits.map((bits) => bits * 6);
+
+    // charModes[i][j] represents the mode to encode the code point at
+    // index i such that the final segment ends in modeTypes[j] and the
+    // total number of bits is minimized over all possible choices
+    const charModes: Array<Array<Mode | null>> = [];
+
+    // At the beginning of each iteration of the loop below,
+    // prevCosts[j] is the exact minimum number of 1/6 bits needed to
+    // encode the entire string prefix of length i, and end in modeTypes[j]
+    let prevCosts: Array<int> = headCosts.slice();
+
+    // Calculate costs using dynamic programming
+    for (const c of codePoints) {
+      const curModes: Array<Mode | null> = modeTypes.map((_) => null);
+      const curCosts: Array<int> = modeTypes.map((_) => 0);
+      modeTypes.forEach((mode, j) => {
+        // Extend a segment if possible
+        const cost: int = QrSegmentAdvanced._charCost(mode, c, fnc1);
+        if (cost > 0) {
+          curCosts[j] = prevCosts[j] + cost;
+          curModes[j] = mode;
+        }
+      });
+
+      // Start new segment at the end to switch modes
+      for (let j = 0; j < numModes; j++) {
+        // To mode
+        for (let k = 0; k < numModes; k++) {
+          // From mode
+          const newCost: int = Math.ceil(curCosts[k] / 6) * 6 + headCosts[j];
+          if (
+            curModes[k] !== null &&
+            (curModes[j] === null || newCost < curCosts[j])
+          ) {
+            curCosts[j] = newCost;
+            curModes[j] = modeTypes[k];
+          }
+        }
+      }
+
+      if (curModes.every((mode) => mode === null))
+        throw new RangeError("String contains unencodable characters");
+      charModes.push(curModes);
+      prevCosts = curCosts;
+    }
+
+    // Find optimal ending mode
+    let curMode: Mode | null = null;
+    for (let i = 0, minCost = 0; i < numModes; i++) {
+      if (curMode === null || prevCosts[i] < minCost) {
+        minCost = prevCosts[i];
+        curMode = modeTypes[i];
+      }
+    }
+
+    // Get optimal mode for each code point by tracing backwards
+    const result: Array<Mode> = [];
+    for (let i = charModes.length - 1; i >= 0; i--) {
+      curMode = charModes[i][modeTypes.indexOf(curMode as Mode)];
+      result.unshift(curMode as Mode);
+    }
+    return result;
+  }
+
+  // Returns the cost of one code point in the given mode, measured in 1/6 bits,
+  // or 0 if the mode cannot encode the code point.
+  private static _charCost(mode: Mode, c: int, fnc1: boolean): int {
+    if (mode === Mode._BYTE)
+      return QrSegmentAdvanced._countUtf8Bytes(c) * 8 * 6;
+    if (mode === Mode._ALPHANUMERIC && fnc1 && (c == 0x1d || c == 0x25))
+      return c == 0x1d ? 33 : 66; // The separator is %, and % is %%
+    if (mode === Mode._ALPHANUMERIC)
+      return c < 0x80 &&
+        QrSegment._ALPHANUMERIC_CHARSET.indexOf(String.fromCharCode(c)) != -1
+        ? 33 // 5.5 bits per alphanumeric char
+        : 0;
+    if (mode === Mode._NUMERIC) return 0x30 <= c && c <= 0x39 ? 20 : 0; // 3.33 bits per digit
+    if (mode === Mode._KANJI) return toKanjiValue(c) != -1 ? 78 : 0; // 13 bits per Shift JIS char
+    throw new Error("Unreachable");
+  }
+
+  // Returns a new list of segments based on the given text and modes, such that
+  // consecutive code points in the same mode are put into the same segment.
+  private static _splitIntoSegments(
+    codePoints: Readonly<Array<int>>,
+    charModes: Readonly<Array<Mode>>,
+    fnc1: boolean
+  ): Array<QrSegment> {
+    const result: Array<QrSegment> = [];
+
+    // Accumulate run of modes
+    let curMode: Mode = charModes[0];
+    let start: int = 0;
+    for (let i = 1; ; i++) {
+      if (i < codePoints.length && charModes[i] === curMode) continue;
+      const s: string = String.fromCodePoint(...codePoints.slice(start, i));
+      if (curMode === Mode._BYTE)
+        result.push(QrSegment._makeBytes(QrSegment._toUtf8ByteArray(s)));
+      else if (curMode === Mode._NUMERIC)
+        result.push(QrSegment._makeNumeric(s));
+      else if (curMode === Mode._ALPHANUMERIC && fnc1)
+        result.push(
+          QrSegment._makeAlphanumeric(
+            s.replace(/%/g, "%%").replace(/\x1d/g, "%")
+          )
+        );
+      else if (curMode === Mode._ALPHANUMERIC)
+        result.push(QrSegment._makeAlphanumeric(s));
+      else if (curMode === Mode._KANJI)
+        result.push(QrSegmentAdvanced._makeKanji(s));
+      else throw new Error("Unreachable");
+      if (i >= codePoints.length) return result;
+      curMode = charModes[i];
+      start = i;
+    }
+  }
+
+  /*-- Kanji mode segment encoder --*/
+
+  // Returns a segment representing the given string encoded in kanji mode. Broadly speaking,
+  // the set of encodable characters are {kanji used in Japan, hiragana, katakana, East Asian
+  // punctuation, full-width ASCII, Greek, Cyrillic}. Examples of non-encodable characters
+  // include {ordinary ASCII, half-width katakana, more extensive Chinese hanzi}.
+  public static _makeKanji(text: string): QrSegment {
+    const bb: Array<int> = [];
+    let numChars: int = 0;
+    for (const ch of text) {
+      const val: int = toKanjiValue(ch.codePointAt(0) as int);
+      if (val == -1)
+        throw new RangeError("String contains non-kanji-mode characters");
+      for (let i = 12; i >= 0; i--) bb.push((val >>> i) & 1);
+      numChars++;
+    }
+    return new QrSegment(Mode._KANJI, numChars, bb);
+  }
+
+  // (Package-private) Returns a new array of Unicode code points (effectively
+  // UTF-32 / UCS-4) representing the given UTF-16 string.
+  public static _toCodePoints(s: string): Array<int> {
+    const result: Array<int> = [];
+    for (const ch of s) result.push(ch.codePointAt(0) as int);
+    return result;
+  }
+
+  // Returns the number of UTF-8 bytes needed to encode the given Unicode code point.
+  private static _countUtf8Bytes(cp: int): int {
+    if (cp < 0) throw new RangeError("Invalid code point");
+    else if (cp < 0x80) return 1;
+    else if (cp < 0x800) return 2;
+    else if (cp < 0x10000) return 3;
+    else if (cp < 0x110000) return 4;
+    else throw new RangeError("Invalid code point");
+  }
+
+  /*-- Constants --*/
+
+  // The modes considered by the optimizer, byte mode first so that ties prefer it.
+  private static readonly _MODE_TYPES: Array<Mode> = [
+    Mode._BYTE,
+    Mode._ALPHANUMERIC,
+    Mode._NUMERIC,
+    Mode._KANJI,
+  ];
+}
@@ -0,0 +1,535 @@
+import {
+  Ecc,
+  Mode,
+  ModuleType,
+  QrCode,
+  QrSegment,
+  _appendBits,
+  _assert,
+} from "./qrcodegen";
+import { QrSegmentAdvanced } from "./qrsegmentadvanced";
+
+type bit = number;
+type byte = number;
+type int = number;
+
+/*---- Rectangular Micro QR Code symbol class ----*/
+
+/*
+ * A Rectangular Micro QR Code (rMQR) symbol, as described in the ISO/IEC 23941 standard.
+ * It comes in 32 versions from R7x43 to R17x139, which are 7 to 17 modules high and 27 to 139
+ * modules wide, and supports the medium and high error correction levels. It has a finder
+ * pattern on the left, a smaller finder sub pattern in the bottom right corner and needs a
+ * quiet zone of 2 modules.
+ *
+ * Versions are numbered 0 to 31 in the order of the version table. Instances are immutable.
+ */
+export class RmqrCode {
+  /*-- Static factory functions --*/
+
+  // Returns an rMQR symbol representing the given Unicode text string, split into the most
+  // compact segments for each version. Of the versions with the given height (or any height if
+  // it is 0), the one with the smallest area that fits is chosen. If boostEcl is true, the high
+  // error correction level is used when the data fits in the same version with it.
+  public static _encodeText(
+    text: string,
+    ecl: Ecc,
+    height: int = 0,
+    boostEcl: boolean = true
+  ): RmqrCode {
+    const codePoints: Array<int> = QrSegmentAdvanced._toCodePoints(text);
+    return RmqrCode._encodeVersions(
+      (version) =>
+        QrSegmentAdvanced._makeSegmentsForModes(
+          codePoints,
+          RmqrCode._MODES,
+          RmqrCode._MODES.map(
+            (mode) => 3 + RmqrCode._getCharCountBits(mode, version)
+          )
+        ),
+      ecl,
+      height,
+      boostEcl
+    );
+  }
+
+  // Returns an rMQR symbol representing the given segments, which must only use
+  // the numeric, alphanumeric, byte and kanji modes. Other parameters as above.
+  public static _encodeSegments(
+    segs: Readonly<Array<QrSegment>>,
+    ecl: Ecc,
+    height: int = 0,
+    boostEcl: boolean = true
+  ): RmqrCode {
+    return RmqrCode._encodeVersions(() => segs, ecl, height, boostEcl);
+  }
+
+  // Finds the smallest version whose segments (as made for that version) fit, then
+  // packs the data codewords and creates the symbol.
+  private static _encodeVersions(
+    makeSegs: (version: int) => Readonly<Array<QrSegment>>,
+    ecl: Ecc,
+    height: int,
+    boostEcl: boolean
+  ): RmqrCode {
+    if (ecl !== Ecc._MEDIUM && ecl !== Ecc._HIGH)
+      throw new RangeError(
+        "rMQR only has the medium and high error correction levels"
+      );
+    if (height != 0 && RmqrCode._HEIGHTS.indexOf(height) == -1)
+      throw new RangeError("Invalid height");
+
+    // Try versions from the smallest area up
+    const versions: Array<int> = RmqrCode._VERSIONS
+      .map((_, i) => i)
+      .filter((v) => height == 0 || RmqrCode._VERSIONS[v][0] == height)
+      .sort((a, b) => RmqrCode._getArea(a) - RmqrCode._getArea(b) || a - b);
+    for (const version of versions) {
+      let segs: Readonly<Array<QrSegment>>;
+      let dataUsedBits: number;
+      try {
+        segs = makeSegs(version);
+        dataUsedBits = RmqrCode._getTotalBits(segs, version);
+      } catch (e) {
+        // Text with characters that none of the modes can encode
+        if (!(e instanceof RangeError)) throw e;
+        continue;
+      }
+      if (dataUsedBits > RmqrCode._getNumDataCodewords(version, ecl) * 8)
+        continue;
+
+      // Increase the error correction level if the data still fits in the current version
+      if (
+        boostEcl &&
+        dataUsedBits <= RmqrCode._getNumDataCodewords(version, Ecc._HIGH) * 8
+      )
+        ecl = Ecc._HIGH;
+
+      // Concatenate all segments to create the data bit string
+      let bb: Array<bit> = [];
+      for (const seg of segs) {
+        _appendBits(RmqrCode._MODES.indexOf(seg._mode) + 1, 3, bb);
+        _appendBits(
+          seg._numChars,
+          RmqrCode._getCharCountBits(seg._mode, version),
+          bb
+        );
+        for (const b of seg._getData()) bb.push(b);
+      }
+      _assert(bb.length == dataUsedBits);
+
+      // Add terminator and pad up to a byte if applicable
+      const dataCapacityBits: int =
+        RmqrCode._getNumDataCodewords(version, ecl) * 8;
+      _appendBits(0, Math.min(3, dataCapacityBits - bb.length), bb);
+      _appendBits(0, (8 - (bb.length % 8)) % 8, bb);
+
+      // Pad with alternating bytes until data capacity is reached
+      for (
+        let padByte = 0xec;
+        bb.length < dataCapacityBits;
+        padByte ^= 0xec ^ 0x11
+      )
+        _appendBits(padByte, 8, bb);
+
+      // Pack bits into bytes in big endian
+      let dataCodewords: Array<byte> = [];
+      while (dataCodewords.length * 8 < bb.length) dataCodewords.push(0);
+      bb.forEach(
+        (b: bit, i: int) => (dataCodewords[i >>> 3] |= b << (7 - (i & 7)))
+      );
+      return new RmqrCode(version, ecl, dataCodewords);
+    }
+    throw new RangeError("Data too long");
+  }
+
+  /*-- Fields --*/
+
+  // The width of this symbol in modules, between 27 and 139 (inclusive).
+  public readonly _width: int;
+
+  // The height of this symbol in modules, between 7 and 17 (inclusive).
+  public readonly _height: int;
+
+  // The modules of this symbol (false = light, true = dark), height rows of width modules.
+  public readonly _modules: Array<Array<boolean>> = [];
+
+  // Indicates function modules that are not subjected to masking. Discarded when constructor finishes.
+  private readonly _isFunction: Array<Array<boolean>> = [];
+
+  // (Package-private) The part of the symbol each module belongs to, indexed like the modules.
+  public readonly _moduleTypes: Array<Array<ModuleType>> = [];
+
+  /*-- Constructor (low level) and fields --*/
+
+  // Creates a new rMQR symbol with the given version index, error correction level and data codeword bytes.
+  public constructor(
+    // The index of this symbol's version in the version table, between 0 (R7x43) and 31 (R17x139).
+    public readonly _version: int,
+
+    // The error correction level used in this symbol, medium or high.
+    public readonly _errorCorrectionLevel: Ecc,
+
+    dataCodewords: Readonly<Array<byte>>
+  ) {
+    if (_version < 0 || _version >= RmqrCode._VERSIONS.length)
+      throw new RangeError("Version value out of range");
+    [this._height, this._width] = RmqrCode._VERSIONS[_version];
+
+    for (let i = 0; i < this._height; i++) {
+      this._modules.push(new Array<boolean>(this._width).fill(false));
+      this._isFunction.push(new Array<boolean>(this._width).fill(false));
+      this._moduleTypes.push(new Array<ModuleType>(this._width).fill("data"));
+    }
+
+    this._drawFunctionPatterns();
+    this._drawCodewords(this._addEccAndInterleave(dataCodewords));
+    this._applyMask();
+    this._isFunction = [];
+  }
+
+  /*-- Accessor methods --*/
+
+  // (Package-private) Returns the center of the single finder pattern, which covers
+  // the 7*7 modules around it, not counting the light separator.
+  public _getFinderCenters(): Array<[int, int]> {
+    return [[3, 3]];
+  }
+
+  /*-- Private helper methods for constructor: Drawing function modules --*/
+
+  private _drawFunctionPatterns(): void {
+    const w: int = this._width;
+    const h: int = this._height;
+    const alignPatPos: Array<int> = RmqrCode._getAlignmentPatternPositions(w);
+
+    // Draw the horizontal timing patterns along the top and bottom edges, and the
+    // vertical ones along the left and right edges and through the alignment patterns
+    for (let x = 0; x < w; x++) {
+      this._setFunctionModule(x, 0, x % 2 == 0, "timing");
+      this._setFunctionModule(x, h - 1, x % 2 == 0, "timing");
+    }
+    for (const x of [0, w - 1].concat(alignPatPos)) {
+      for (let y = 0; y < h; y++)
+        this._setFunctionModule(x, y, y % 2 == 0, "timing");
+    }
+
+    // Draw the finder pattern with its separator along the right (and bottom if there's room)
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist: int = Math.max(Math.abs(dx), Math.abs(dy));
+        const x: int = 3 + dx;
+        const y: int = 3 + dy;
+        if (0 <= x && 0 <= y && y < h && dist != 4)
+          this._setFunctionModule(x, y, dist != 2, "finder");
+      }
+    }
+    for (let i = 0; i < 8; i++) {
+      if (i < h) this._setFunctionModule(7, i, false, "separator");
+      if (h >= 9) this._setFunctionModule(i, 7, false, "separator");
+    }
+
+    // Draw the finder sub pattern in the bottom right corner
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++)
+        this._setFunctionModule(
+          w - 3 + dx,
+          h - 3 + dy,
+          Math.max(Math.abs(dx), Math.abs(dy)) != 1,
+          "finder"
+        );
+    }
+
+    // Draw the corner finder patterns in the top right and bottom left corners
+    this._setFunctionModule(w - 2, 0, true, "finder");
+    this._setFunctionModule(w - 1, 1, true, "finder");
+    this._setFunctionModule(w - 2, 1, false, "finder");
+    for (let x = 0; x < 3; x++)
+      this._setFunctionModule(x, h - 1, true, "finder");
+    if (h >= 11) {
+      this._setFunctionModule(0, h - 2, true, "finder");
+      this._setFunctionModule(1, h - 2, false, "finder");
+    }
+
+    // Draw the alignment patterns on the top and bottom edges
+    for (const x of alignPatPos) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const isDark: boolean = dx != 0 || dy != 0;
+          this._setFunctionModule(x + dx, 1 + dy, isDark, "alignment");
+          this._setFunctionModule(x + dx, h - 2 + dy, isDark, "alignment");
+        }
+      }
+    }
+
+    this._drawFormatBits();
+  }
+
+  // Draws the two copies of the format bits (with its own error correction code), one
+  // next to the finder pattern and one next to the finder sub pattern.
+  private _drawFormatBits(): void {
+    const w: int = this._width;
+    const h: int = this._height;
+
+    // Calculate error correction code and pack bits
+    const data: int =
+      ((this._errorCorrectionLevel === Ecc._HIGH ? 1 : 0) << 5) | this._version; // uint6
+    let rem: int = data;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits: int = (data << 12) | rem; // uint18
+    _assert(bits >>> 18 == 0);
+
+    // Each copy has its own mask, and fills columns of 5 modules
+    const left: int = bits ^ 0x1fab2;
+    const right: int = bits ^ 0x20a7b;
+    for (let i = 0; i < 18; i++) {
+      this._setFunctionModule(
+        8 + Math.floor(i / 5),
+        1 + (i % 5),
+        ((left >>> i) & 1) != 0,
+        "format"
+      );
+      if (i < 15)
+        this._setFunctionModule(
+          w - 8 + Math.floor(i / 5),
+          h - 6 + (i % 5),
+          ((right >>> i) & 1) != 0,
+          "format"
+        );
+      else
+        this._setFunctionModule(
+          w - 20 + i,
+          h - 6,
+          ((right >>> i) & 1) != 0,
+          "format"
+        );
+    }
+  }
+
+  // Sets the color of a module and marks it as a function module of the given type.
+  private _setFunctionModule(
+    x: int,
+    y: int,
+    isDark: boolean,
+    type: ModuleType
+  ): void {
+    this._modules[y][x] = isDark;
+    this._isFunction[y][x] = true;
+    this._moduleTypes[y][x] = type;
+  }
+
+  /*-- Private helper methods for constructor: Codewords and masking --*/
+
+  // Returns a new byte string representing the given data with the appropriate error correction
+  // codewords appended to it, split into blocks and interleaved the same way as QR Code.
+  private _addEccAndInterleave(data: Readonly<Array<byte>>): Array<byte> {
+    const ver: int = this._version;
+    const ecl: Ecc = this._errorCorrectionLevel;
+    if (data.length != RmqrCode._getNumDataCodewords(ver, ecl))
+      throw new RangeError("Invalid argument");
+
+    // Calculate parameter numbers
+    const [numBlocks, blockEccLen] = RmqrCode._getBlocks(ver, ecl);
+    const rawCodewords: int = Math.floor(RmqrCode._VERSIONS[ver][2] / 8);
+    const numShortBlocks: int = numBlocks - (rawCodewords % numBlocks);
+    const shortBlockLen: int = Math.floor(rawCodewords / numBlocks);
+
+    // Split data into blocks and append ECC to each block
+    let blocks: Array<Array<byte>> = [];
+    const rsDiv: Array<byte> = QrCode._reedSolomonComputeDivisor(blockEccLen);
+    for (let i = 0, k = 0; i < numBlocks; i++) {
+      let dat: Array<byte> = data.slice(
+        k,
+        k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1)
+      );
+      k += dat.length;
+      const ecc: Array<byte> = QrCode._reedSolomonComputeRemainder(dat, rsDiv);
+      if (i < numShortBlocks) dat.push(0);
+      blocks.push(dat.concat(ecc));
+    }
+
+    // Interleave (not concatenate) the bytes from every block into a single sequence
+    let result: Array<byte> = [];
+    for (let i = 0; i < blocks[0].length; i++) {
+      blocks.forEach((block, j) => {
+        // Skip the padding byte in short blocks
+        if (i != shortBlockLen - blockEccLen || j >= numShortBlocks)
+          result.push(block[i]);
+      });
+    }
+    _assert(result.length == rawCodewords);
+    return result;
+  }
+
+  // Draws the codewords in a two-column zigzag from the bottom right, moving left.
+  // The rightmost column holds no data, and remainder bits are left light.
+  private _drawCodewords(data: Readonly<Array<byte>>): void {
+    this._getBitIndices().forEach((row, y) =>
+      row.forEach((i, x) => {
+        if (i != -1)
+          this._modules[y][x] = ((data[i >>> 3] >>> (7 - (i & 7))) & 1) != 0;
+      })
+    );
+  }
+
+  // (Package-private) Returns the index of the bit in the sequence of codewords (data
+  // and error correction, interleaved) that each module holds, or -1 for function
+  // modules and remainder bits.
+  public _getBitIndices(): Array<Array<int>> {
+    const numBits: int =
+      Math.floor(RmqrCode._VERSIONS[this._version][2] / 8) * 8;
+    const result: Array<Array<int>> = this._modules.map((row) =>
+      row.map((_) => -1)
+    );
+    let i: int = 0; // Bit index into the data
+    let upward: boolean = true;
+    for (
+      let right = this._width - 2;
+      right >= 1;
+      right -= 2, upward = !upward
+    ) {
+      for (let vert = 1; vert < this._height - 1; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x: int = right - j;
+          const y: int = upward ? this._height - 1 - vert : vert;
+          if (this._moduleTypes[y][x] == "data" && i < numBits)
+            result[y][x] = i++;
+        }
+      }
+    }
+    _assert(i == numBits);
+    return result;
+  }
+
+  // (Package-private) Returns the number of modules holding data codewords, which come
+  // before the error correction codewords in the order of getBitIndices().
+  public _getNumDataModules(): int {
+    return (
+      RmqrCode._getNumDataCodewords(this._version, this._errorCorrectionLevel) *
+      8
+    );
+  }
+
+  // XORs the data modules with the only mask pattern rMQR has, which is QR Code mask 4.
+  private _applyMask(): void {
+    for (let y = 0; y < this._height; y++) {
+      for (let x = 0; x < this._width; x++) {
+        if (
+          !this._isFunction[y][x] &&
+          (Math.floor(y / 2) + Math.floor(x / 3)) % 2 == 0
+        )
+          this._modules[y][x] = !this._modules[y][x];
+      }
+    }
+  }
+
+  /*-- Private helper functions --*/
+
+  // Returns the x positions of the alignment patterns for the given width.
+  private static _getAlignmentPatternPositions(width: int): Array<int> {
+    const [first, step] = RmqrCode._ALIGNMENT_PATTERNS[width];
+    let result: Array<int> = [];
+    for (let x = first; step > 0 && x < width - 13; x += step) result.push(x);
+    return result;
+  }
+
+  private static _getArea(version: int): int {
+    return RmqrCode._VERSIONS[version][0] * RmqrCode._VERSIONS[version][1];
+  }
+
+  // Returns the number of blocks and the number of error correction codewords per block.
+  private static _getBlocks(version: int, ecl: Ecc): [int, int] {
+    const row: Array<int> = RmqrCode._VERSIONS[version];
+    return ecl === Ecc._HIGH ? [row[5], row[6]] : [row[3], row[4]];
+  }
+
+  // Returns the number of 8-bit data codewords at the given version and error correction level.
+  private static _getNumDataCodewords(version: int, ecl: Ecc): int {
+    const [numBlocks, blockEccLen] = RmqrCode._getBlocks(version, ecl);
+    return (
+      Math.floor(RmqrCode._VERSIONS[version][2] / 8) - numBlocks * blockEccLen
+    );
+  }
+
+  // Returns the width of the character count field of a segment in the given mode.
+  private static _getCharCountBits(mode: Mode, version: int): int {
+    const i: int = RmqrCode._MODES.indexOf(mode);
+    if (i == -1) throw new RangeError("Mode not supported by rMQR");
+    return RmqrCode._VERSIONS[version][7 + i];
+  }
+
+  // Returns the number of bits needed to encode the given segments at the given
+  // version, or infinity if a segment is too long for its character count field.
+  private static _getTotalBits(
+    segs: Readonly<Array<QrSegment>>,
+    version: int
+  ): number {
+    let result: number = 0;
+    for (const seg of segs) {
+      const ccBits: int = RmqrCode._getCharCountBits(seg._mode, version);
+      if (seg._numChars >= 1 << ccBits) return Infinity;
+      result += 3 + ccBits + seg._getData().length;
+    }
+    return result;
+  }
+
+  /*-- Constants and tables --*/
+
+  // Modes in the order of their mode indicator values, starting from 1.
+  private static readonly _MODES: Array<Mode> = [
+    Mode._NUMERIC,
+    Mode._ALPHANUMERIC,
+    Mode._BYTE,
+    Mode._KANJI,
+  ];
+
+  private static readonly _HEIGHTS: Array<int> = [7, 9, 11, 13, 15, 17];
+
+  // Center of the first alignment pattern and the distance between them, by width.
+  private static readonly _ALIGNMENT_PATTERNS: Record<int, [int, int]> = {
+    27: [0, 0],
+    43: [21, 22],
+    59: [19, 20],
+    77: [25, 26],
+    99: [23, 26],
+    139: [27, 28],
+  };
+
+  // Per version: height, width, data modules, medium blocks and ECC codewords per block,
+  // high blocks and ECC codewords per block, then the character count field widths
+  // for numeric, alphanumeric, byte and kanji mode.
+  private static readonly _VERSIONS: Array<Array<int>> = [
+    [7, 43, 104, 1, 7, 1, 10, 4, 3, 3, 2],
+    [7, 59, 171, 1, 9, 1, 14, 5, 5, 4, 3],
+    [7, 77, 261, 1, 12, 1, 22, 6, 5, 5, 4],
+    [7, 99, 358, 1, 16, 1, 30, 7, 6, 5, 5],
+    [7, 139, 545, 1, 24, 2, 22, 7, 6, 6, 5],
+    [9, 43, 170, 1, 9, 1, 14, 5, 5, 4, 3],
+    [9, 59, 267, 1, 12, 1, 22, 6, 5, 5, 4],
+    [9, 77, 393, 1, 18, 2, 16, 7, 6, 5, 5],
+    [9, 99, 532, 1, 24, 2, 22, 7, 6, 6, 5],
+    [9, 139, 797, 2, 18, 3, 22, 8, 7, 6, 6],
+    [11, 27, 122, 1, 8, 1, 10, 4, 4, 3, 2],
+    [11, 43, 249, 1, 12, 1, 20, 6, 5, 5, 4],
+    [11, 59, 376, 1, 16, 2, 16, 7, 6, 5, 5],
+    [11, 77, 538, 1, 24, 2, 22, 7, 6, 6, 5],
+    [11, 99, 719, 2, 16, 2, 30, 8, 7, 6, 6],
+    [11, 139, 1062, 2, 24, 3, 30, 8, 7, 7, 6],
+    [13, 27, 172, 1, 9, 1, 14, 5, 5, 4, 3],
+    [13, 43, 329, 1, 14, 1, 28, 6, 6, 5, 5],
+    [13, 59, 486, 1, 22, 2, 20, 7, 6, 6, 5],
+    [13, 77, 684, 2, 16, 2, 28, 7, 7, 6, 6],
+    [13, 99, 907, 2, 20, 3, 26, 8, 7, 7, 6],
+    [13, 139, 1328, 3, 20, 4, 28, 8, 8, 7, 7],
+    [15, 43, 409, 1, 18, 2, 18, 7, 6, 6, 5],
+    [15, 59, 596, 1, 26, 2, 24, 7, 7, 6, 5],
+    [15, 77, 830, 2, 18, 3, 24, 8, 7, 7, 6],
+    [15, 99, 1095, 2, 24, 4, 22, 8, 7, 7, 6],
+    [15, 139, 1594, 3, 24, 5, 26, 9, 8, 7, 7],
+    [17, 43, 489, 1, 22, 2, 20, 7, 6, 6, 5],
+    [17, 59, 706, 2, 16, 2, 30, 8, 7, 6, 6],
+    [17, 77, 976, 2, 22, 3, 28, 8, 7, 7, 6],
+    [17, 99, 1283, 3, 20, 4, 26, 8, 8, 7, 6],
+    [17, 139, 1860, 4, 20, 6, 26, 9, 8, 8, 7],
+  ];
+}
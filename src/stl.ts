@@ -0,0 +1,193 @@
+import { round } from "./outline";
+
+export interface StlOptions {
+  // Width and height of a module in mm, defaults to 2
+  moduleSize?: number;
+  // Thickness of the base plate in mm, defaults to 2
+  baseThickness?: number;
+  // How far the dark modules stand out from the base plate in mm, defaults to 1
+  moduleHeight?: number;
+  // Width of the quiet zone on the base plate around the code in modules, defaults to 4
+  margin?: number;
+}
+
+type Vector = [number, number, number];
+
+interface Triangle {
+  normal: Vector;
+  vertices: [Vector, Vector, Vector];
+}
+
+// Share of a module by which raised cells that only touch at a corner pull the corner in
+const PINCH = 0.01;
+
+// Builds a closed mesh of the base plate with the dark modules standing on it. Neighbouring
+// dark modules merge into one raised region, walls only rise where the height changes, and
+// every wall is split at the top of the plate so that all triangles share whole edges.
+function buildMesh(modules: boolean[][], opts: StlOptions): Triangle[] {
+  const {
+    moduleSize = 2,
+    baseThickness = 2,
+    moduleHeight = 1,
+    margin = 4,
+  } = opts;
+  if (!(moduleSize > 0)) throw new RangeError("Module size must be positive");
+  if (!(baseThickness > 0 && moduleHeight > 0))
+    throw new RangeError("Base thickness and module height must be positive");
+  if (!(Number.isInteger(margin) && margin >= 0))
+    throw new RangeError("Margin must be a whole number of modules");
+  const width = modules[0].length + margin * 2;
+  const height = modules.length + margin * 2;
+  const top = baseThickness + moduleHeight;
+  // Height of the cell in column x and row y from the top, 0 off the plate
+  const heightAt = (x: number, y: number) => {
+    if (x < 0 || y < 0 || x >= width || y >= height) return 0;
+    return modules[y - margin]?.[x - margin] ? top : baseThickness;
+  };
+  // The rows run down and y runs up, so the code reads from above
+  const corner = (x: number, y: number, z: number): Vector => [
+    x * moduleSize,
+    (height - y) * moduleSize,
+    z,
+  ];
+  // Whether the cell in column x and row y is one of two higher cells that only touch at
+  // the corner (cx, cy). Four walls would share the edge up that corner, so each of the
+  // two takes its own corner, pulled a little into the cell, and the lower cells between
+  // them meet along the short edge that this leaves.
+  const isPinched = (x: number, y: number, cx: number, cy: number) => {
+    const z = heightAt(x, y);
+    const across = heightAt(2 * cx - 1 - x, 2 * cy - 1 - y);
+    const beside = heightAt(2 * cx - 1 - x, y);
+    return z == across && z > beside && beside == heightAt(x, 2 * cy - 1 - y);
+  };
+  const vertex = (x: number, y: number, cx: number, cy: number, z: number) => {
+    if (!isPinched(x, y, cx, cy)) return corner(cx, cy, z);
+    const inset = PINCH * 2;
+    return corner(cx + (x + 0.5 - cx) * inset, cy + (y + 0.5 - cy) * inset, z);
+  };
+
+  const triangles: Triangle[] = [];
+  // Adds a convex polygon given counterclockwise as seen from outside, as a fan of triangles
+  const polygon = (normal: Vector, points: Vector[]) => {
+    for (let i = 2; i < points.length; i++)
+      triangles.push({
+        normal,
+        vertices: [points[0], points[i - 1], points[i]],
+      });
+  };
+  // Adds the parts of the wall of the cell in column x and row y along its edge from corner
+  // (x0, y0) to (x1, y1), between the levels from z0 to z1, split at the top of the plate
+  const wall = (
+    [x, y]: number[],
+    [x0, y0]: number[],
+    [x1, y1]: number[],
+    z0: number,
+    z1: number
+  ) => {
+    for (const [lo, hi] of [
+      [0, baseThickness],
+      [baseThickness, top],
+    ]) {
+      if (lo < z0 || hi > z1) continue;
+      const a = vertex(x, y, x0, y0, lo);
+      const b = vertex(x, y, x1, y1, lo);
+      // Facing to the right of the edge as seen from above, without negative zeros
+      const [dx, dy] = [b[0] - a[0], b[1] - a[1]];
+      const length = Math.hypot(dx, dy);
+      polygon(
+        [dy / length, -dx / length || 0, 0],
+        [a, b, vertex(x, y, x1, y1, hi), vertex(x, y, x0, y0, hi)]
+      );
+    }
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const z = heightAt(x, y);
+      // The neighbours to the left, below, to the right and above, each followed by
+      // the corner of the cell between it and the next
+      const sides = [
+        [x - 1, y],
+        [x, y + 1],
+        [x + 1, y],
+        [x, y - 1],
+      ];
+      const corners = [
+        [x, y + 1],
+        [x + 1, y + 1],
+        [x + 1, y],
+        [x, y],
+      ];
+      const outline: Vector[] = [];
+      corners.forEach(([cx, cy], i) => {
+        const [before, after] = [sides[i], sides[(i + 1) % 4]];
+        // A lower cell runs through the pulled in corners of both higher neighbours
+        if (isPinched(before[0], before[1], cx, cy))
+          outline.push(
+            vertex(before[0], before[1], cx, cy, z),
+            vertex(after[0], after[1], cx, cy, z)
+          );
+        else outline.push(vertex(x, y, cx, cy, z));
+      });
+      polygon([0, 0, 1], outline);
+      // Walls face away from this cell wherever the neighbour is lower
+      wall([x, y], [x + 1, y + 1], [x + 1, y], heightAt(x + 1, y), z);
+      wall([x, y], [x, y], [x, y + 1], heightAt(x - 1, y), z);
+      wall([x, y], [x + 1, y], [x, y], heightAt(x, y - 1), z);
+      wall([x, y], [x, y + 1], [x + 1, y + 1], heightAt(x, y + 1), z);
+    }
+  }
+
+  // The bottom is a fan around its center, through every corner along the
+  // edges of the plate so that it meets the walls edge to edge
+  const rim: Vector[] = [];
+  for (let x = 0; x < width; x++) rim.push(corner(x, height, 0));
+  for (let y = height; y > 0; y--) rim.push(corner(width, y, 0));
+  for (let x = width; x > 0; x--) rim.push(corner(x, 0, 0));
+  for (let y = 0; y < height; y++) rim.push(corner(0, y, 0));
+  const center = corner(width / 2, height / 2, 0);
+  rim.forEach((point, i) =>
+    triangles.push({
+      normal: [0, 0, -1],
+      vertices: [center, rim[(i + 1) % rim.length], point],
+    })
+  );
+  return triangles;
+}
+
+// Writes the mesh as a binary STL: an 80 byte header, the number of triangles,
+// and for each triangle its normal, its three vertices and 2 unused bytes
+export function renderStl(
+  modules: boolean[][],
+  opts: StlOptions = {}
+): Uint8Array {
+  const triangles = buildMesh(modules, opts);
+  const bytes = new Uint8Array(84 + triangles.length * 50);
+  const view = new DataView(bytes.buffer);
+  const header = "tiny-qrcode-svg";
+  for (let i = 0; i < header.length; i++) bytes[i] = header.charCodeAt(i);
+  view.setUint32(80, triangles.length, true);
+  triangles.forEach(({ normal, vertices }, i) => {
+    let offset = 84 + i * 50;
+    for (const vector of [normal, ...vertices])
+      for (const n of vector) {
+        view.setFloat32(offset, n, true);
+        offset += 4;
+      }
+  });
+  return bytes;
+}
+
+export function renderAsciiStl(
+  modules: boolean[][],
+  opts: StlOptions = {}
+): string {
+  let stl = "solid qrcode\n";
+  for (const { normal, vertices } of buildMesh(modules, opts)) {
+    stl += `facet normal ${normal.join(" ")}\nouter loop\n`;
+    for (const vertex of vertices)
+      stl += `vertex ${vertex.map((n) => round(n, 4)).join(" ")}\n`;
+    stl += "endloop\nendfacet\n";
+  }
+  return stl + "endsolid qrcode\n";
+}
@@ -0,0 +1,90 @@
+import {
+  checkEci,
+  EncodeOptions,
+  QrData,
+  getEcc,
+  makePrefix,
+  makeSegments,
+  toBytes,
+} from "./encode";
+import { Ecc, QrCode, QrSegment } from "./qrcodegen";
+
+// The most symbols a Structured Append message can be split into
+const MAX_SYMBOLS = 16;
+
+export interface StructuredAppend {
+  // The segments of each symbol, in order, each starting with its header
+  symbols: QrSegment[][];
+  // The XOR of all bytes of the message, UTF-8 encoded for text
+  parity: number;
+}
+
+function getParity(data: QrData): number {
+  const bytes =
+    typeof data === "string" ? new TextEncoder().encode(data) : toBytes(data);
+  return bytes.reduce((parity, b) => parity ^ b, 0);
+}
+
+// Splits the payload into pieces of about equal length, never inside a character
+function split(data: QrData, count: number): QrData[] {
+  const units =
+    typeof data === "string" ? Array.from(data) : Array.from(toBytes(data));
+  const pieces: QrData[] = [];
+  for (let i = 0; i < count; i++) {
+    const start = Math.floor((i * units.length) / count);
+    const end = Math.floor(((i + 1) * units.length) / count);
+    const piece = units.slice(start, end);
+    pieces.push(
+      typeof data === "string"
+        ? (piece as string[]).join("")
+        : new Uint8Array(piece as number[])
+    );
+  }
+  return pieces;
+}
+
+// Returns the segments if they fit in a code of the largest version, or null if they don't
+function fit(
+  piece: QrData,
+  ecl: Ecc,
+  prefix: QrSegment[],
+  maxVersion: number
+): QrSegment[] | null {
+  let segs: QrSegment[];
+  try {
+    segs = makeSegments(piece, ecl, prefix);
+  } catch (e) {
+    if (e instanceof RangeError && e.message === "Data too long") return null;
+    throw e;
+  }
+  const capacity = QrCode._getNumDataCodewords(maxVersion, ecl) * 8;
+  return QrSegment._getTotalBits(segs, maxVersion) <= capacity ? segs : null;
+}
+
+// Splits the payload across the fewest symbols that each fit in a code of
+// the largest version, 40 unless limited by maxVersion
+export function splitStructuredAppend(
+  data: QrData,
+  opts: EncodeOptions = {}
+): StructuredAppend {
+  const { maxVersion = QrCode._MAX_VERSION } = opts;
+  const ecl = getEcc(opts.ecc);
+  checkEci(data, opts);
+  const parity = getParity(data);
+  attempt: for (let count = 1; count <= MAX_SYMBOLS; count++) {
+    const symbols: QrSegment[][] = [];
+    for (const piece of split(data, count)) {
+      const header = QrSegment._makeStructuredAppend(
+        symbols.length,
+        count,
+        parity
+      );
+      const prefix = [header].concat(makePrefix(opts));
+      const segs = fit(piece, ecl, prefix, maxVersion);
+      if (!segs) continue attempt;
+      symbols.push(segs);
+    }
+    return { symbols, parity };
+  }
+  throw new RangeError("Data too long for 16 symbols");
+}
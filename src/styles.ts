@@ -0,0 +1,120 @@
+// Draws one dark module as filled path data. The module's top left corner is at (x, y) and it is
+// size units wide. isDark tells whether the module dx columns and dy rows away is dark.
+export type ModuleStyle = (
+  x: number,
+  y: number,
+  size: number,
+  isDark: (dx: number, dy: number) => boolean
+) => string;
+
+function arc(r: number, dx: number, dy: number) {
+  return r ? `a${r} ${r} 0 0 1 ${dx} ${dy}` : "";
+}
+
+function line(cmd: "h" | "v", length: number) {
+  return length ? `${cmd}${length}` : "";
+}
+
+// Path data for a square with its corners rounded by the given radii,
+// clockwise from the top left
+export function roundedSquare(
+  x: number,
+  y: number,
+  size: number,
+  [tl, tr, br, bl]: number[]
+): string {
+  return (
+    `M${x + tl} ${y}` +
+    line("h", size - tl - tr) +
+    arc(tr, tr, tr) +
+    line("v", size - tr - br) +
+    arc(br, -br, br) +
+    line("h", -(size - br - bl)) +
+    arc(bl, -bl, -bl) +
+    line("v", -(size - bl - tl)) +
+    arc(tl, tl, -tl) +
+    "z"
+  );
+}
+
+export type ModuleStyleName = "dots" | "rounded" | "liquid";
+
+const MODULE_STYLES: Record<ModuleStyleName, ModuleStyle> = {
+  // Circles touching their neighbours
+  dots: (x, y, size) => roundedSquare(x, y, size, Array(4).fill(size / 2)),
+  // Squares with slightly rounded corners
+  rounded: (x, y, size) => roundedSquare(x, y, size, Array(4).fill(size / 4)),
+  // Neighbouring modules merge, only the outer corners are rounded
+  liquid: (x, y, size, isDark) => {
+    const corner = (dx: number, dy: number) =>
+      isDark(dx, 0) || isDark(0, dy) ? 0 : size / 2;
+    return roundedSquare(x, y, size, [
+      corner(-1, -1),
+      corner(1, -1),
+      corner(1, 1),
+      corner(-1, 1),
+    ]);
+  },
+};
+
+export function getModuleStyle(name: ModuleStyleName): ModuleStyle {
+  if (!Object.prototype.hasOwnProperty.call(MODULE_STYLES, name))
+    throw new RangeError(`Unknown module style: ${name}`);
+  return MODULE_STYLES[name];
+}
+
+// Draws every dark module with the given style, offset by the quiet zone
+export function drawModules(
+  modules: boolean[][],
+  margin: number,
+  size: number,
+  style: ModuleStyle
+): string {
+  let path = "";
+  modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (!dark) return;
+      const isDark = (dx: number, dy: number) =>
+        modules[y + dy]?.[x + dx] === true;
+      path += style((x + margin) * size, (y + margin) * size, size, isDark);
+    })
+  );
+  return path;
+}
+
+export type FinderStyle = "square" | "rounded" | "circle" | "leaf";
+
+// Corner radii in modules of the outside of the frame, the inside of the frame and the pupil
+const FINDER_RADII: Record<FinderStyle, number[]> = {
+  square: [0, 0, 0],
+  rounded: [2, 1, 0.75],
+  circle: [3.5, 2.5, 1.5],
+  leaf: [3, 2, 1],
+};
+
+function getFinderRadii(name: FinderStyle): number[] {
+  if (!Object.prototype.hasOwnProperty.call(FINDER_RADII, name))
+    throw new RangeError(`Unknown finder style: ${name}`);
+  return FINDER_RADII[name];
+}
+
+// Draws the 7*7 frame (with a hole, to be filled evenodd) and the 3*3 pupil of a finder
+// pattern whose top left corner is at (x, y). Leaves point along the diagonal from the
+// top left to the bottom right corner, or the other diagonal when flipped.
+export function drawFinder(
+  style: FinderStyle,
+  x: number,
+  y: number,
+  size: number,
+  flipped: boolean
+): { frame: string; pupil: string } {
+  const [outside, inside, pupil] = getFinderRadii(style).map((r) => r * size);
+  const corners = (r: number) =>
+    style !== "leaf" ? [r, r, r, r] : flipped ? [r, 0, r, 0] : [0, r, 0, r];
+  return {
+    frame:
+      roundedSquare(x, y, size * 7, corners(outside)) +
+      roundedSquare(x + size, y + size, size * 5, corners(inside)),
+    pupil: roundedSquare(x + size * 2, y + size * 2, size * 3, corners(pupil)),
+  };
+}
@@ -0,0 +1,85 @@
+export interface TextOptions {
+  // "unicode" draws two rows of modules per line with half blocks, "ascii" draws
+  // each module as two characters to keep it square, defaults to "unicode"
+  charset?: "unicode" | "ascii";
+  // Color the modules black and white with ANSI escapes, so that the code
+  // reads the same on light and dark terminals, defaults to false
+  ansi?: boolean;
+  // Width of the quiet zone around the code in modules, defaults to 4
+  margin?: number;
+  // Swap dark and light, which without ansi suits light text on a dark terminal
+  invert?: boolean;
+}
+
+// Half blocks for the top and bottom module of a character cell, indexed by top * 2 + bottom
+const HALF_BLOCKS = [" ", "▄", "▀", "█"];
+
+const BLACK_TEXT = "\x1b[30m";
+const WHITE_TEXT = "\x1b[97m";
+const BLACK_BACKGROUND = "\x1b[40m";
+const WHITE_BACKGROUND = "\x1b[107m";
+const RESET = "\x1b[0m";
+
+// Draws the modules as lines of text. Without ansi the characters show the dark modules,
+// or the light ones when inverted, and the terminal background shows the rest.
+export function renderText(
+  modules: boolean[][],
+  opts: TextOptions = {}
+): string {
+  const {
+    charset = "unicode",
+    ansi = false,
+    margin = 4,
+    invert = false,
+  } = opts;
+  if (charset !== "unicode" && charset !== "ascii")
+    throw new RangeError(`Unknown charset: ${charset}`);
+  if (!(Number.isInteger(margin) && margin >= 0))
+    throw new RangeError("Margin must be a whole number of modules");
+  const width = modules[0].length + margin * 2;
+  const height = modules.length + margin * 2;
+  // Whether the module at (x, y) of the code with its quiet zone is drawn in ink
+  const isInk = (x: number, y: number) =>
+    (modules[y - margin]?.[x - margin] === true) !== invert;
+
+  const lines: string[] = [];
+  if (charset === "ascii") {
+    for (let y = 0; y < height; y++) {
+      let line = "";
+      let last: boolean | undefined;
+      for (let x = 0; x < width; x++) {
+        const ink = isInk(x, y);
+        if (!ansi) line += ink ? "##" : "  ";
+        else if (ink === last) line += "  ";
+        else line += (ink ? BLACK_BACKGROUND : WHITE_BACKGROUND) + "  ";
+        last = ink;
+      }
+      lines.push(ansi ? line + RESET : line);
+    }
+    return lines.join("\n");
+  }
+
+  // An odd number of rows ends with half a line of extra quiet zone
+  for (let y = 0; y < height; y += 2) {
+    let line = "";
+    let lastTop: boolean | undefined;
+    let lastBottom: boolean | undefined;
+    for (let x = 0; x < width; x++) {
+      const top = isInk(x, y);
+      const bottom = isInk(x, y + 1);
+      if (!ansi) {
+        line += HALF_BLOCKS[+top * 2 + +bottom];
+        continue;
+      }
+      // The upper half block takes the text color, the lower half the background
+      if (top !== lastTop) line += top ? BLACK_TEXT : WHITE_TEXT;
+      if (bottom !== lastBottom)
+        line += bottom ? BLACK_BACKGROUND : WHITE_BACKGROUND;
+      line += "▀";
+      lastTop = top;
+      lastBottom = bottom;
+    }
+    lines.push(ansi ? line + RESET : line);
+  }
+  return lines.join("\n");
+}
@@ -22,5 +22,6 @@ export const tsup: Options = {
     options.mangleProps = /^_/;
     options.treeShaking = true;
     options.keepNames = false;
+    options.charset = "utf8"; // keep the kanji table as raw characters instead of \u escapes
   },
 };